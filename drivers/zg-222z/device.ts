@@ -1,46 +1,87 @@
 'use strict';
 
-import { ZigBeeDevice } from 'homey-zigbeedriver';
 import { CLUSTER } from 'zigbee-clusters';
+import { BATTERY_VOLTAGE_RANGES } from '../../lib/battery';
+import DeviceIASZone from '../../lib/DeviceIASZone';
+import HobeianSleepyDevice from '../../lib/HobeianSleepyDevice';
+import { expectedReportPeriodMs } from '../../lib/offlineWatchdog';
 import IASZoneBoundCluster from '../../lib/IASZoneBoundCluster';
-
-module.exports = class ZG222ZDevice extends ZigBeeDevice {
-
-  private lastWakeHandledAt = 0;
+import {
+  activeZoneStatusBits,
+  decodeZoneStatusNotification,
+  IASZoneStatus,
+  isSupervisionReport,
+} from '../../lib/iasZoneStatus';
+import {
+  acknowledgeLeak,
+  createLeakAlarmState,
+  LeakAlarmState,
+  LeakAlarmUpdate,
+  leakAlarmOptionsFromSettings,
+  leakDurationMinutes,
+  nextLeakAlarmCheckMs,
+  tickLeakAlarm,
+  updateLeakSensor,
+} from '../../lib/leakAlarm';
+
+// Battery reporting interval; the only periodic report, so the offline watchdog expects one within it
+const BATTERY_MAX_INTERVAL = 43200;
+const REPORT_PERIOD_SECONDS = [BATTERY_MAX_INTERVAL];
+
+const LEAK_ALARM_STORE_KEY = 'leakAlarm';
+const LEAK_ALARM_SETTINGS = ['leak_latching', 'leak_auto_clear', 'leak_renotify'];
+const ACKNOWLEDGE_LEAK_CAPABILITY = 'button.acknowledge_leak';
+
+// Zone status bits without a standard capability
+const TROUBLE_CAPABILITY = 'alarm_generic.trouble';
+const BATTERY_DEFECT_CAPABILITY = 'alarm_generic.battery_defect';
+const TEST_MODE_CAPABILITY = 'test_mode';
+
+module.exports = class ZG222ZDevice extends HobeianSleepyDevice {
+
+  protected batteryVoltageRange = BATTERY_VOLTAGE_RANGES.CR2032;
+  private iasZone!: DeviceIASZone;
+  private leakAlarm: LeakAlarmState = createLeakAlarmState();
+  private leakAlarmTimer: any;
+  private zoneStatus?: IASZoneStatus;
 
   async onNodeInit({ zclNode }: { zclNode: any }) {
     this.log('ZG-222Z device initialized');
+    this.iasZone = new DeviceIASZone(this);
 
-    this.log('Available endpoints:', Object.keys(zclNode.endpoints));
-    for (const [endpointId, endpoint] of Object.entries(zclNode.endpoints)) {
-      this.log(`Endpoint ${endpointId} clusters:`, Object.keys((endpoint as any).clusters));
-    }
-
-    const endpoint = zclNode.endpoints[1];
-    if (!endpoint) {
-      this.error('Endpoint 1 not found');
-      return;
-    }
+    await super.onNodeInit({ zclNode });
+    const endpoint = this.endpoint1;
+    if (!endpoint) return;
 
+    // The battery module publishes measure_battery and alarm_battery
     this.registerCapability('measure_battery', CLUSTER.POWER_CONFIGURATION, {
+      reportParser: (value: number) => {
+        this.battery.reportPercentageRemaining(value);
+        return null;
+      },
       reportOpts: {
         configureAttributeReporting: {
           minInterval: 3600,
-          maxInterval: 43200,
+          maxInterval: BATTERY_MAX_INTERVAL,
           minChange: 2,
         },
       },
     });
 
-    this.registerCapability('alarm_battery', CLUSTER.POWER_CONFIGURATION);
+    await this.initLeakAlarm().catch(this.error);
+    for (const capability of [TROUBLE_CAPABILITY, BATTERY_DEFECT_CAPABILITY, TEST_MODE_CAPABILITY]) {
+      if (!this.hasCapability(capability)) await this.addCapability(capability).catch(this.error);
+    }
 
-    zclNode.endpoints[1].bind(CLUSTER.IAS_ZONE.NAME, new IASZoneBoundCluster(this));
+    endpoint.bind(CLUSTER.IAS_ZONE.NAME, new IASZoneBoundCluster(this));
     this.log('Bound IAS Zone cluster for status notifications');
 
     await this.configureIASZone(endpoint).catch(this.error);
 
-    const isSleepy = this.isDeviceSleepy();
-    this.log(`Device is ${isSleepy ? 'sleepy (battery-powered)' : 'always-on'}`);
+    // Sleepy devices only answer right after pairing; otherwise this is retried on wake
+    if (this.isFirstInit() || !this.isDeviceSleepy()) {
+      await this.collectDeviceInfo().catch(this.error);
+    }
   }
 
   private async configureIASZone(endpoint: any): Promise<void> {
@@ -50,67 +91,164 @@ module.exports = class ZG222ZDevice extends ZigBeeDevice {
       return;
     }
 
+    const enrolled = await this.iasZone.verify(endpoint);
+    this.log(`IAS Zone ${enrolled ? 'enrolled' : 'not enrolled yet'}`);
+
     try {
       const attrs = await iasZoneCluster.readAttributes(['zoneState', 'zoneType', 'zoneStatus']);
       this.log('IAS Zone attributes:', JSON.stringify(attrs));
 
       if (attrs.zoneStatus) {
-        this.onZoneStatusChange(attrs.zoneStatus);
+        this.onZoneStatusChange({ zoneStatus: attrs.zoneStatus });
       }
     } catch (err) {
       this.log('Could not read IAS Zone attributes (device may be sleeping):', err);
     }
   }
 
-  onZoneStatusChange(zoneStatus: Record<string, boolean>) {
-    this.log('Processing zone status:', JSON.stringify(zoneStatus));
+  onZoneEnrollRequest() {
+    this.iasZone.onEnrollRequest(this.endpoint1).catch(this.error);
+  }
 
-    const waterLeak = zoneStatus.alarm1 === true;
-    this.log(`Water leak: ${waterLeak}`);
-    if (this.hasCapability('alarm_water')) {
-      this.setCapabilityValue('alarm_water', waterLeak).catch(this.error);
-    }
+  onZoneStatusNotification(payload: { zoneStatus?: unknown; extendedStatus?: number; zoneId?: number; delay?: number }) {
+    this.iasZone.onStatusNotification();
+    this.onZoneStatusChange(payload);
+  }
 
-    const tamper = zoneStatus.tamper === true;
-    this.log(`Tamper: ${tamper}`);
-    if (this.hasCapability('alarm_tamper')) {
-      this.setCapabilityValue('alarm_tamper', tamper).catch(this.error);
+  onZoneStatusChange(payload: { zoneStatus?: unknown; extendedStatus?: number; zoneId?: number; delay?: number }) {
+    const {
+      status, extendedStatus, zoneId, delayMs,
+    } = decodeZoneStatusNotification(payload);
+    const previous = this.zoneStatus;
+    this.zoneStatus = status;
+    this.log(`Processing zone status: ${activeZoneStatusBits(status).join(', ') || 'clear'}`
+      + ` (extended status ${extendedStatus}, zone ID ${zoneId ?? '-'}, delay ${delayMs} ms)`);
+
+    // Every frame rearms the offline watchdog, so periodic supervision reports keep the device online
+    if (isSupervisionReport(previous, status)) {
+      this.log('Supervision report');
     }
-
-    const batteryLow = zoneStatus.battery === true;
-    this.log(`Battery low: ${batteryLow}`);
-    if (this.hasCapability('alarm_battery')) {
-      this.setCapabilityValue('alarm_battery', batteryLow).catch(this.error);
+    if (previous?.restoreReports !== status.restoreReports && !status.restoreReports) {
+      this.log('Device does not send restore reports: a leak alarm may only clear on the next status report');
     }
+    if (status.acMains) this.log('Device reports an AC mains fault');
 
+    // The delay tells how long ago the status changed
+    this.applyLeakAlarm(updateLeakSensor(this.leakAlarm, status.alarm1, Date.now() - delayMs, this.getLeakAlarmOptions()));
+
+    this.setZoneCapability('alarm_tamper', status.tamper);
+    this.setZoneCapability(TROUBLE_CAPABILITY, status.trouble);
+    this.setZoneCapability(BATTERY_DEFECT_CAPABILITY, status.batteryDefect);
+    this.setZoneCapability(TEST_MODE_CAPABILITY, status.test);
+    this.battery.setDeviceLowBattery(status.battery || status.batteryDefect);
+
+    if (this.endpoint1) this.iasZone.checkZoneId(zoneId, this.endpoint1).catch(this.error);
     this.setAvailable().catch(this.error);
   }
 
-  async onEndDeviceAnnounce(): Promise<void> {
-    this.log('Device announced (woke up from sleep)');
-    await this.onDeviceAwake();
+  private setZoneCapability(capability: string, value: boolean) {
+    if (!this.hasCapability(capability)) return;
+    this.setCapabilityValue(capability, value).catch(this.error);
   }
 
-  private async onDeviceAwake(): Promise<void> {
-    const now = Date.now();
-    const DEBOUNCE_MS = 5000;
+  /**
+   * Restore the leak alarm after a restart and add the acknowledge button to devices paired before it existed.
+   */
+  private async initLeakAlarm(): Promise<void> {
+    if (!this.hasCapability(ACKNOWLEDGE_LEAK_CAPABILITY)) {
+      await this.addCapability(ACKNOWLEDGE_LEAK_CAPABILITY);
+    }
+    this.registerCapabilityListener(ACKNOWLEDGE_LEAK_CAPABILITY, async () => this.acknowledgeLeak());
 
-    if (now - this.lastWakeHandledAt < DEBOUNCE_MS) {
-      this.log('Skipping duplicate wake handling (debounce)');
-      return;
+    const stored = this.getStoreValue(LEAK_ALARM_STORE_KEY);
+    if (stored && typeof stored.active === 'boolean') this.leakAlarm = stored;
+    this.checkLeakAlarm();
+  }
+
+  /**
+   * Acknowledge the leak alarm (button or flow action).
+   */
+  async acknowledgeLeak(): Promise<void> {
+    this.log('Leak alarm acknowledged');
+    this.applyLeakAlarm(acknowledgeLeak(this.leakAlarm));
+  }
+
+  private getLeakAlarmOptions(settings: Record<string, any> = this.getSettings()) {
+    return leakAlarmOptionsFromSettings(settings);
+  }
+
+  /**
+   * Run due time-based transitions and schedule the next check.
+   */
+  private checkLeakAlarm(settings?: Record<string, any>) {
+    const options = this.getLeakAlarmOptions(settings);
+    this.applyLeakAlarm(tickLeakAlarm(this.leakAlarm, Date.now(), options), options);
+  }
+
+  private applyLeakAlarm({ state, event }: LeakAlarmUpdate, options = this.getLeakAlarmOptions()) {
+    const previous = this.leakAlarm;
+    this.leakAlarm = state;
+    this.setStoreValue(LEAK_ALARM_STORE_KEY, state).catch(this.error);
+    if (this.hasCapability('alarm_water')) {
+      this.setCapabilityValue('alarm_water', state.active).catch(this.error);
     }
-    this.lastWakeHandledAt = now;
 
-    this.log('Handling device wake-up');
-    await this.setAvailable().catch(this.error);
+    const now = Date.now();
+    if (event === 'still_active') {
+      this.log(`Leak still active for ${leakDurationMinutes(state, now)} minutes`);
+      this.homey.flow.getDeviceTriggerCard('water_leak_still_active')
+        .trigger(this, this.getLeakTokens(state, now))
+        .catch(this.error);
+    } else if (event === 'cleared') {
+      this.log(`Leak alarm cleared after ${leakDurationMinutes(previous, now)} minutes`);
+      this.homey.flow.getDeviceTriggerCard('water_leak_cleared')
+        .trigger(this, this.getLeakTokens(previous, now))
+        .catch(this.error);
+    }
+
+    if (this.leakAlarmTimer !== undefined) this.homey.clearTimeout(this.leakAlarmTimer);
+    this.leakAlarmTimer = undefined;
+    const delay = nextLeakAlarmCheckMs(state, now, options);
+    if (delay === undefined) return;
+    this.leakAlarmTimer = this.homey.setTimeout(() => {
+      this.leakAlarmTimer = undefined;
+      this.checkLeakAlarm();
+    }, Math.min(delay, 0x7fffffff));
+  }
+
+  private getLeakTokens(state: LeakAlarmState, now: number) {
+    return {
+      leak_started: state.startedAt !== undefined ? this.formatLastSeen(state.startedAt) : '',
+      leak_duration_minutes: leakDurationMinutes(state, now),
+    };
+  }
+
+  protected getReportPeriodMs(): number | undefined {
+    return expectedReportPeriodMs(REPORT_PERIOD_SECONDS);
+  }
+
+  async onSettings({ oldSettings, newSettings, changedKeys }: {
+    oldSettings: Record<string, any>;
+    newSettings: Record<string, any>;
+    changedKeys: string[];
+  }): Promise<string | void> {
+    await super.onSettings({ oldSettings, newSettings, changedKeys });
+    if (changedKeys.some((key) => LEAK_ALARM_SETTINGS.includes(key))) {
+      this.checkLeakAlarm(newSettings);
+    }
   }
 
-  private isDeviceSleepy(): boolean {
-    return (this as any).node?.receiveWhenIdle === false;
+  /**
+   * Re-enroll a device that lost its enrollment, otherwise it stops sending alarms.
+   */
+  protected async onWake(): Promise<void> {
+    if (this.endpoint1) await this.iasZone.verify(this.endpoint1);
   }
 
   async onDeleted() {
     this.log('ZG-222Z device deleted');
+    await super.onDeleted();
+    if (this.leakAlarmTimer !== undefined) this.homey.clearTimeout(this.leakAlarmTimer);
   }
 
 };
@@ -6,6 +6,14 @@ module.exports = class ZG222ZDriver extends ZigBeeDriver {
 
   async onInit() {
     this.log('ZG-222Z Driver has been initialized');
+    this.registerFlowCards();
+  }
+
+  private registerFlowCards() {
+    this.homey.flow.getActionCard('acknowledge_leak')
+      .registerRunListener(async (args: any) => {
+        await args.device.acknowledgeLeak();
+      });
   }
 
 };
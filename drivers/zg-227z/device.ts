@@ -1,52 +1,59 @@
 'use strict';
 
-import { ZigBeeDevice } from 'homey-zigbeedriver';
 import { CLUSTER } from 'zigbee-clusters';
+import DeviceClimate, { VPD_ALARM_SETTINGS } from '../../lib/DeviceClimate';
+import HobeianSleepyDevice from '../../lib/HobeianSleepyDevice';
+import { expectedReportPeriodMs } from '../../lib/offlineWatchdog';
+import DeviceOutlierFilter from '../../lib/DeviceOutlierFilter';
+import { OUTLIER_FILTER_DEFAULTS } from '../../lib/outlierFilter';
+import { applyHumidityCalibrationPercent, applyTemperatureCalibrationC } from '../../lib/zg303z';
+import { Measurement, reportingFromSettings, reportingSettingKeys } from '../../lib/zg227zReporting';
+
+// Set while changed reporting settings still have to be sent to the (sleeping) device
+const REPORTING_PENDING_STORE_KEY = 'reportingPending';
+
+// Measurement cluster per reporting measurement
+const MEASUREMENT_CLUSTERS: Record<Measurement, any> = {
+  temperature: CLUSTER.TEMPERATURE_MEASUREMENT,
+  humidity: CLUSTER.RELATIVE_HUMIDITY_MEASUREMENT,
+};
 
-module.exports = class ZG227ZDevice extends ZigBeeDevice {
+module.exports = class ZG227ZDevice extends HobeianSleepyDevice {
 
-  private endpoint1: any = null;
-  private lastWakeHandledAt = 0;
+  private climate!: DeviceClimate;
+  private outlierFilter!: DeviceOutlierFilter;
+  private reportingConfiguration?: Promise<boolean>;
 
   async onNodeInit({ zclNode }: { zclNode: any }) {
     this.log('ZG-227Z device initialized');
+    this.climate = new DeviceClimate(this);
+    this.outlierFilter = new DeviceOutlierFilter(this);
 
-    this.log('Available endpoints:', Object.keys(zclNode.endpoints));
-    for (const [endpointId, endpoint] of Object.entries(zclNode.endpoints)) {
-      this.log(`Endpoint ${endpointId} clusters:`, Object.keys((endpoint as any).clusters));
-    }
-
-    const endpoint = zclNode.endpoints[1];
-    if (!endpoint) {
-      this.error('Endpoint 1 not found');
-      return;
-    }
-    this.endpoint1 = endpoint;
-
-    const isSleepy = this.isDeviceSleepy();
-    this.log(`Device is ${isSleepy ? 'sleepy (battery-powered)' : 'always-on'}`);
+    await super.onNodeInit({ zclNode });
+    if (!this.endpoint1) return;
 
+    const settings = this.getSettings();
     this.registerCapability('measure_temperature', CLUSTER.TEMPERATURE_MEASUREMENT, {
+      // Same conversion as the system parser (hundredths of °C), plus spike rejection and calibration
+      reportParser: (value: number) => this.parseReading('temperature', Math.round((value / 100) * 10) / 10),
       reportOpts: {
-        configureAttributeReporting: {
-          minInterval: 60,
-          maxInterval: 3600,
-          minChange: 50, // 0.5°C (value is in hundredths)
-        },
+        configureAttributeReporting: reportingFromSettings(settings, 'temperature'),
       },
     });
 
     this.registerCapability('measure_humidity', CLUSTER.RELATIVE_HUMIDITY_MEASUREMENT, {
+      reportParser: (value: number) => this.parseReading('humidity', Math.round((value / 100) * 10) / 10),
       reportOpts: {
-        configureAttributeReporting: {
-          minInterval: 60,
-          maxInterval: 3600,
-          minChange: 100, // 1% (value is in hundredths)
-        },
+        configureAttributeReporting: reportingFromSettings(settings, 'humidity'),
       },
     });
 
+    // The battery module publishes measure_battery after arbitrating between sources
     this.registerCapability('measure_battery', CLUSTER.POWER_CONFIGURATION, {
+      reportParser: (value: number) => {
+        this.battery.reportPercentageRemaining(value);
+        return null;
+      },
       reportOpts: {
         configureAttributeReporting: {
           minInterval: 3600,
@@ -56,59 +63,111 @@ module.exports = class ZG227ZDevice extends ZigBeeDevice {
       },
     });
 
-    if (!isSleepy) {
-      await this.readBattery(endpoint).catch(this.error);
+    await this.climate.addCapabilities().catch(this.error);
+
+    // Reporting settings changed before a restart still have to reach the device
+    if (this.getStoreValue(REPORTING_PENDING_STORE_KEY)) this.deferReportingConfiguration();
+
+    // Sleepy devices only answer right after pairing; otherwise this is retried on wake
+    if (this.isFirstInit() || !this.isDeviceSleepy()) {
+      await this.collectDeviceInfo().catch(this.error);
     }
   }
 
-  async onEndDeviceAnnounce(): Promise<void> {
-    this.log('Device announced (woke up from sleep)');
-    await this.onDeviceAwake();
+  /**
+   * Filter a reading on the sensor's own value, then apply the host-side calibration
+   * and update the derived climate metrics.
+   */
+  private parseReading(name: Measurement, value: number): number | null {
+    if (!this.outlierFilter.accept(name, value, OUTLIER_FILTER_DEFAULTS[name])) return null;
+    if (name === 'temperature') {
+      const temperature = Math.round(applyTemperatureCalibrationC(value, this.getSetting('temperature_calibration') ?? 0) * 10) / 10;
+      this.climate.setTemperature(temperature);
+      return temperature;
+    }
+    const humidity = Math.round(applyHumidityCalibrationPercent(value, this.getSetting('humidity_calibration') ?? 0) * 10) / 10;
+    this.climate.setHumidity(humidity);
+    return humidity;
   }
 
-  private async onDeviceAwake(): Promise<void> {
-    const now = Date.now();
-    const DEBOUNCE_MS = 5000;
+  /**
+   * Configure reporting the next time the device is heard from.
+   */
+  private deferReportingConfiguration() {
+    this.deferUntilAwake('reporting configuration', () => this.configureReporting());
+  }
 
-    if (now - this.lastWakeHandledAt < DEBOUNCE_MS) {
-      this.log('Skipping duplicate wake handling (debounce)');
-      return;
+  /**
+   * Send the reporting settings to the device. Returns false when the device did not answer;
+   * the configuration then stays pending until the device is heard from again.
+   */
+  private async configureReporting(settings: Record<string, any> = this.getSettings()): Promise<boolean> {
+    if (!this.reportingConfiguration) {
+      this.reportingConfiguration = (async () => {
+        try {
+          await this.configureAttributeReporting((['temperature', 'humidity'] as Measurement[]).map((measurement) => {
+            const options = reportingFromSettings(settings, measurement);
+            this.log(`Configuring ${measurement} reporting:`, options);
+            return {
+              endpointId: 1,
+              cluster: MEASUREMENT_CLUSTERS[measurement],
+              attributeName: 'measuredValue',
+              minInterval: options.minInterval,
+              maxInterval: options.maxInterval,
+              minChange: options.minChange,
+            };
+          }));
+          await this.setStoreValue(REPORTING_PENDING_STORE_KEY, false);
+          this.restartOfflineWatchdog(settings);
+          return true;
+        } catch (err) {
+          this.log('Could not configure reporting (device may be sleeping):', err);
+          await this.setStoreValue(REPORTING_PENDING_STORE_KEY, true);
+          return false;
+        } finally {
+          this.reportingConfiguration = undefined;
+        }
+      })();
     }
-    this.lastWakeHandledAt = now;
-
-    this.log('Handling device wake-up');
-    await this.setAvailable().catch(this.error);
+    return this.reportingConfiguration;
+  }
 
-    if (this.endpoint1) {
-      await this.readBattery(this.endpoint1).catch(this.error);
-    }
+  protected getReportPeriodMs(settings: Record<string, any>): number | undefined {
+    // The maximum reporting intervals guarantee a report within the longest of them
+    return expectedReportPeriodMs([
+      reportingFromSettings(settings, 'temperature').maxInterval,
+      reportingFromSettings(settings, 'humidity').maxInterval,
+    ]);
   }
 
-  private async readBattery(endpoint: any): Promise<void> {
-    const powerCluster = endpoint.clusters[CLUSTER.POWER_CONFIGURATION.NAME];
-    if (!powerCluster) {
-      this.log('PowerConfiguration cluster not available');
-      return;
+  async onSettings({ oldSettings, newSettings, changedKeys }: {
+    oldSettings: Record<string, any>;
+    newSettings: Record<string, any>;
+    changedKeys: string[];
+  }): Promise<string | void> {
+    await super.onSettings({ oldSettings, newSettings, changedKeys });
+    if (changedKeys.some((key) => VPD_ALARM_SETTINGS.includes(key))) {
+      this.climate.update(newSettings);
     }
 
-    try {
-      const batteryStatus = await powerCluster.readAttributes(['batteryPercentageRemaining']);
-      if (batteryStatus.batteryPercentageRemaining !== undefined) {
-        const battery = Math.round(batteryStatus.batteryPercentageRemaining / 2);
-        this.log('Battery level:', battery, '%');
-        await this.setCapabilityValue('measure_battery', battery);
-      }
-    } catch (err) {
-      this.log('Could not read battery (device may be sleeping):', err);
+    const reportingChanges = changedKeys.filter((key) => reportingSettingKeys().includes(key));
+    if (reportingChanges.length === 0) return undefined;
+    await this.setStoreValue(REPORTING_PENDING_STORE_KEY, true);
+    if (this.isDeviceSleepy()) {
+      this.log('Device is sleepy - reporting will be configured when it is heard from');
+      this.deferReportingConfiguration();
+      return this.homey.__('settings.queued');
     }
-  }
-
-  private isDeviceSleepy(): boolean {
-    return (this as any).node?.receiveWhenIdle === false;
+    const configured = await this.configureReporting(newSettings);
+    if (!configured) this.deferReportingConfiguration();
+    return configured
+      ? this.homey.__('settings.confirmed')
+      : this.homey.__('settings.not_confirmed', { settings: reportingChanges.join(', ') });
   }
 
   async onDeleted() {
     this.log('ZG-227Z device deleted');
+    await super.onDeleted();
   }
 
 };
@@ -1,361 +1,340 @@
 'use strict';
 
-import { ZigBeeDevice } from 'homey-zigbeedriver';
-import { CLUSTER } from 'zigbee-clusters';
-
-// Import and register Tuya cluster
-import { TuyaDataTypes, TUYA_CLUSTER_ID } from '../../lib/TuyaCluster';
-import { decodeTuyaDpValuesFromZclFrame } from '../../lib/tuyaFrame';
+import DeviceClimate, { VPD_ALARM_SETTINGS } from '../../lib/DeviceClimate';
+import TuyaZigbeeDevice, { TuyaDatapointDefinition, TuyaDeviceDefinition, TuyaSettingDefinition } from '../../lib/TuyaZigbeeDevice';
+import { TuyaValue } from '../../lib/tuyaFrame';
+import {
+  applyProfileThreshold,
+  CUSTOM_PLANT_PROFILES_SETTING,
+  CUSTOM_PROFILE_ID,
+  evaluatePlantAlarms,
+  parseCustomPlantProfiles,
+  PlantAlarms,
+  PlantProfile,
+  resolvePlantProfile,
+  SOIL_WARNING_SETTING,
+  withProfileThreshold,
+} from '../../lib/plantProfiles';
 import {
-  clampPercent,
-  computeWaterAlarmFromSoilMoisture,
-  rawTemperatureTimes10ToCelsius,
-  toTuyaPercentCalibration,
-  toTuyaSamplingSeconds,
-  toTuyaSoilWarningThresholdPercent,
-  toTuyaTemperatureCalibrationTenths,
+  daysSince,
+  detectWatering,
+  DrynessAlarmOptions,
+  drynessAlarmOptionsFromSettings,
+  DrynessAlarmState,
+  appendSoilMoistureSample,
+  forecastHoursUntilDry,
+  SoilMoistureSample,
+  SmoothedReading,
+  smoothReading,
+  updateDrynessAlarm,
+  WateringEvent,
 } from '../../lib/zg303z';
-import { DP_HANDLERS, DP_WRITE, DEFAULTS } from '../../lib/zg303zDatapoints';
+import { DEFAULTS, ZG303Z_DEFINITION } from '../../lib/zg303zDatapoints';
+
+// Raw and smoothed readings per metric, kept for diagnostics and to continue the EMA after a restart
+const READINGS_STORE_KEY = 'readings';
+
+// Last detected watering (WateringEvent)
+const WATERING_STORE_KEY = 'lastWatering';
+const DAYS_SINCE_WATERED_CAPABILITY = 'measure_days_since_watered';
+
+// Recent soil moisture readings used for the drying forecast
+const SOIL_HISTORY_STORE_KEY = 'soilMoistureHistory';
+const HOURS_UNTIL_DRY_CAPABILITY = 'measure_hours_until_dry';
+
+// Profile alarm capability per PlantAlarms key
+const PLANT_ALARM_CAPABILITIES: Record<keyof PlantAlarms, string> = {
+  tooWet: 'alarm_generic.too_wet',
+  tooCold: 'alarm_generic.too_cold',
+  dryAir: 'alarm_generic.dry_air',
+};
+
+// Smoothing time constant setting (minutes) per datapoint name
+const SMOOTHING_SETTINGS: Record<string, string> = {
+  soilMoisture: 'soil_moisture_smoothing',
+  temperature: 'temperature_smoothing',
+  humidity: 'humidity_smoothing',
+};
 
-module.exports = class ZG303ZDevice extends ZigBeeDevice {
+module.exports = class ZG303ZDevice extends TuyaZigbeeDevice {
 
-  private tuyaCluster: any = null;
   private lastSoilMoisturePercent?: number;
-  private pendingSettingsApply = false;
-  private endpoint1: any = null;
-  private lastWakeHandledAt = 0;
+  private drynessAlarm?: DrynessAlarmState;
+  private readings: Record<string, SmoothedReading> = {};
+  private daysSinceWateredTimer?: NodeJS.Timeout;
+  private hoursUntilDry?: number;
+  private climate!: DeviceClimate;
+  private onAppSettingSet = (key: string) => {
+    if (key === CUSTOM_PLANT_PROFILES_SETTING) this.onCustomPlantProfilesChanged().catch(this.error);
+  };
+
+  protected get tuyaDefinition(): TuyaDeviceDefinition {
+    return ZG303Z_DEFINITION;
+  }
 
   async onNodeInit({ zclNode }: { zclNode: any }) {
     this.log('ZG-303Z device initialized');
+    this.readings = this.getStoreValue(READINGS_STORE_KEY) || {};
+    this.climate = new DeviceClimate(this);
 
     // This Tuya device supports configuring sampling/calibration via datapoints on 0xEF00.
+    await super.onNodeInit({ zclNode });
 
-    // Log available endpoints and clusters for debugging
-    this.log('Available endpoints:', Object.keys(zclNode.endpoints));
-
-    for (const [endpointId, endpoint] of Object.entries(zclNode.endpoints)) {
-      this.log(`Endpoint ${endpointId} clusters:`, Object.keys((endpoint as any).clusters));
-    }
-
-    // Get endpoint 1 and store for later use
-    const endpoint = zclNode.endpoints[1];
-    if (!endpoint) {
-      this.error('Endpoint 1 not found');
-      return;
+    // Devices paired before watering detection, the drying forecast and plant profiles existed
+    const capabilities = [DAYS_SINCE_WATERED_CAPABILITY, HOURS_UNTIL_DRY_CAPABILITY, ...Object.values(PLANT_ALARM_CAPABILITIES)];
+    for (const capability of capabilities) {
+      if (!this.hasCapability(capability)) {
+        await this.addCapability(capability).catch(this.error);
+      }
     }
-    this.endpoint1 = endpoint;
+    await this.climate.addCapabilities().catch(this.error);
+    this.updateDaysSinceWatered();
+    this.daysSinceWateredTimer = this.homey.setInterval(() => this.updateDaysSinceWatered(), 60 * 60 * 1000);
 
-    // Detect if this is a sleepy (battery-powered) device
-    const isSleepy = this.isDeviceSleepy();
-    this.log(`Device is ${isSleepy ? 'sleepy (battery-powered)' : 'always-on'}`);
+    this.homey.settings.on('set', this.onAppSettingSet);
+    this.updatePlantAlarms(this.getSettings());
+  }
 
-    // Only send magic packet on first init (pairing), not on app restarts
-    const isFirstInit = typeof (this as any).isFirstInit === 'function' ? (this as any).isFirstInit() : false;
-    if (isFirstInit) {
-      this.log('First init - sending Tuya magic packet');
-      await this.configureMagicPacket(zclNode).catch(this.error);
+  protected onDatapointValue(dp: number, mapping: TuyaDatapointDefinition, value: TuyaValue) {
+    // The device compares against the same threshold without hysteresis: once soil readings
+    // arrive the local alarm is authoritative and the device's warning is only logged
+    if (mapping.name === 'waterWarning') {
+      if (typeof this.lastSoilMoisturePercent === 'number') {
+        this.log(`Device water warning: ${value} (local dryness alarm takes precedence)`);
+      } else {
+        this.updateWaterAlarm(value === true);
+      }
+      return;
     }
 
-    // Try to get the Tuya cluster
-    this.tuyaCluster = endpoint.clusters['tuya'] || endpoint.clusters[TUYA_CLUSTER_ID];
-
-    if (this.tuyaCluster) {
-      this.log('Tuya cluster found!');
-      this.setupTuyaListeners();
-    } else {
-      this.log('Tuya cluster not found in named clusters, trying to bind...');
-
-      // Try to bind the cluster manually
-      try {
-        await endpoint.bind('tuya');
-        this.tuyaCluster = endpoint.clusters['tuya'];
-        if (this.tuyaCluster) {
-          this.log('Tuya cluster bound successfully');
-          this.setupTuyaListeners();
-        }
-      } catch (err) {
-        this.log('Could not bind Tuya cluster:', err);
-      }
+    const smoothingSetting = SMOOTHING_SETTINGS[mapping.name];
+    if (!smoothingSetting || typeof value !== 'number') {
+      super.onDatapointValue(dp, mapping, value);
+      return;
     }
 
-    // Register for raw cluster commands on the Tuya cluster
-    this.registerRawReportHandler(zclNode);
-
-    // For sleepy devices, defer commands until device wakes up
-    // For always-on devices, apply settings immediately
-    if (isSleepy) {
-      this.log('Device is sleepy - will apply settings and read battery when device wakes up');
-      // Do NOT set pendingSettingsApply = true here - no user changes pending yet
-    } else {
-      // Device is always-on, apply settings immediately
-      if (this.tuyaCluster) {
-        await this.applyDeviceSettings().catch(this.error);
-      }
-      await this.readBattery(endpoint).catch(this.error);
+    // Capabilities show the smoothed value; the raw one is kept in the store
+    const previousReading = this.readings[mapping.name];
+    const reading = this.recordReading(mapping.name, value, this.getSetting(smoothingSetting) ?? 0);
+    const displayed = Math.round(reading.smoothed * 10) / 10;
+    this.setMappedCapability(mapping, displayed);
+    this.updatePlantAlarms(this.getSettings(), { [mapping.name]: displayed });
+    if (mapping.name === 'temperature') this.climate.setTemperature(displayed);
+    if (mapping.name === 'humidity') this.climate.setHumidity(displayed);
+
+    if (mapping.name === 'soilMoisture') {
+      const previous = this.lastSoilMoisturePercent;
+      this.lastSoilMoisturePercent = displayed;
+
+      // Trigger run listeners decide whether the card's threshold was crossed
+      const state = { previous, current: displayed };
+      const tokens = { soil_moisture: displayed };
+      this.homey.flow.getDeviceTriggerCard('soil_moisture_became_lower')
+        .trigger(this, tokens, state).catch(this.error);
+      this.homey.flow.getDeviceTriggerCard('soil_moisture_became_higher')
+        .trigger(this, tokens, state).catch(this.error);
+
+      this.evaluateDrynessAlarm(this.getSettings());
+      const watered = this.checkWatering(previousReading, reading);
+
+      // The drying trend starts over once the soil settles after watering
+      const history = appendSoilMoistureSample(watered ? [] : this.getSoilMoistureHistory(), { value: displayed, at: reading.at });
+      this.setStoreValue(SOIL_HISTORY_STORE_KEY, history).catch(this.error);
+      this.updateDryingForecast(history, this.getSettings());
     }
   }
 
-  private async applyDeviceSettings(): Promise<void> {
-    if (!this.tuyaCluster) return;
-
-    const temperatureSampling = toTuyaSamplingSeconds(this.getSetting('temperature_sampling') ?? DEFAULTS.SAMPLING_SECONDS);
-    const soilSampling = toTuyaSamplingSeconds(this.getSetting('soil_sampling') ?? DEFAULTS.SAMPLING_SECONDS);
-    const soilWarning = toTuyaSoilWarningThresholdPercent(this.getSetting('soil_warning') ?? DEFAULTS.SOIL_WARNING_PERCENT);
-
-    // Calibrations
-    const temperatureCalibrationTenths = toTuyaTemperatureCalibrationTenths(this.getSetting('temperature_calibration') ?? DEFAULTS.CALIBRATION);
-    const humidityCalibration = toTuyaPercentCalibration(this.getSetting('humidity_calibration') ?? DEFAULTS.CALIBRATION);
-    const soilCalibration = toTuyaPercentCalibration(this.getSetting('soil_calibration') ?? DEFAULTS.CALIBRATION);
-
-    // Best-effort: device may be sleeping; will apply on next awake/report window.
-    await this.tuyaCluster.setDatapointEnum?.(DP_WRITE.TEMP_UNIT, 0); // enforce Celsius
-    await this.tuyaCluster.setDatapointValue(DP_WRITE.TEMP_SAMPLING_INTERVAL, temperatureSampling);
-    await this.tuyaCluster.setDatapointValue(DP_WRITE.SOIL_SAMPLING_INTERVAL, soilSampling);
-    await this.tuyaCluster.setDatapointValue(DP_WRITE.SOIL_WARNING_THRESHOLD, soilWarning);
-
-    await this.tuyaCluster.setDatapointValue(DP_WRITE.TEMP_CALIBRATION, temperatureCalibrationTenths);
-    await this.tuyaCluster.setDatapointValue(DP_WRITE.HUMIDITY_CALIBRATION, humidityCalibration);
-    await this.tuyaCluster.setDatapointValue(DP_WRITE.SOIL_CALIBRATION, soilCalibration);
-
-    this.log('Applied device settings via Tuya DPs', {
-      temperatureSampling,
-      soilSampling,
-      soilWarning,
-      temperatureCalibrationTenths,
-      humidityCalibration,
-      soilCalibration,
+  private getPlantProfile(settings: Record<string, any>): PlantProfile | undefined {
+    return resolvePlantProfile({
+      profileId: settings.plant_profile,
+      customName: settings.custom_plant_profile,
+      customProfiles: parseCustomPlantProfiles(this.homey.settings.get(CUSTOM_PLANT_PROFILES_SETTING)),
     });
   }
 
   /**
-   * Set up listeners for Tuya cluster events
+   * Compare the displayed readings with the selected plant profile and set the profile alarms.
+   * `latest` holds readings whose capability update may not have landed yet.
    */
-  private setupTuyaListeners() {
-    if (!this.tuyaCluster) return;
-
-    // Listen for datapoint reports
-    this.tuyaCluster.on('reporting', (args: any) => {
-      this.log('Tuya reporting event:', args);
-      this.processTuyaReport(args);
+  private updatePlantAlarms(settings: Record<string, any>, latest: Record<string, number> = {}) {
+    const reading = (name: string, capability: string) => latest[name] ?? this.getCapabilityValue(capability);
+    const alarms = evaluatePlantAlarms(this.getPlantProfile(settings), {
+      soilMoisture: reading('soilMoisture', 'measure_soil_moisture'),
+      temperature: reading('temperature', 'measure_temperature'),
+      humidity: reading('humidity', 'measure_humidity'),
     });
 
-    this.tuyaCluster.on('response', (args: any) => {
-      this.log('Tuya response event:', args);
-      this.processTuyaReport(args);
-    });
+    for (const [key, capability] of Object.entries(PLANT_ALARM_CAPABILITIES)) {
+      if (!this.hasCapability(capability)) continue;
+      const alarm = alarms[key as keyof PlantAlarms];
+      if (this.getCapabilityValue(capability) === alarm) continue;
+      this.log(`${capability}: ${alarm}`);
+      this.setCapabilityValue(capability, alarm).catch(this.error);
+    }
+  }
 
-    this.tuyaCluster.on('datapoint', (args: any) => {
-      this.log('Tuya datapoint event:', args);
-      this.processTuyaReport(args);
-    });
+  /**
+   * Dryness threshold in use: the plant profile's minimum soil moisture, else the soil_warning setting.
+   */
+  private getDrynessThreshold(settings: Record<string, any>): number {
+    return withProfileThreshold(settings, this.getPlantProfile(settings))[SOIL_WARNING_SETTING] ?? DEFAULTS.SOIL_WARNING_PERCENT;
   }
 
   /**
-   * Register handler for raw Zigbee frames
+   * Without a new value, soil_warning resolves to the threshold in use (e.g. when the device drifted).
    */
-  private registerRawReportHandler(zclNode: any) {
-    // Use zclNode's handleFrame capability to intercept raw frames
-    const endpoint = zclNode.endpoints[1];
-    if (!endpoint) return;
-
-    // Intercept handleFrame for the Tuya cluster
-    const originalHandleFrame = endpoint.handleFrame?.bind(endpoint);
-    if (originalHandleFrame) {
-      endpoint.handleFrame = (clusterId: number, frame: Buffer, meta: any) => {
-        if (clusterId === TUYA_CLUSTER_ID) {
-          this.log('Raw Tuya frame received, cluster:', clusterId);
-          this.log('Frame data:', frame.toString('hex'));
-          this.parseRawTuyaFrame(frame);
-
-          // Device is awake since we received data - trigger wake handler
-          this.onDeviceAwake().catch(this.error);
-        }
-        return originalHandleFrame(clusterId, frame, meta);
-      };
-      this.log('Registered raw frame handler for Tuya cluster');
+  protected settingToDeviceValue(definition: TuyaSettingDefinition, value?: any): TuyaValue {
+    if (value === undefined && definition.setting === SOIL_WARNING_SETTING) {
+      return super.settingToDeviceValue(definition, this.getDrynessThreshold(this.getSettings()));
     }
+    return super.settingToDeviceValue(definition, value);
+  }
 
-    // Also try to use the cluster report handler
-    if (endpoint.clusters) {
-      for (const [name, cluster] of Object.entries(endpoint.clusters)) {
-        const cl = cluster as any;
-        if (typeof cl.onReport === 'function') {
-          const originalOnReport = cl.onReport.bind(cl);
-          cl.onReport = (args: any) => {
-            this.log(`Cluster ${name} report:`, args);
-            return originalOnReport(args);
-          };
-        }
-      }
+  /**
+   * The custom profile in use was edited in the app settings: apply its threshold and ranges.
+   */
+  private async onCustomPlantProfilesChanged() {
+    const settings = this.getSettings();
+    if (settings.plant_profile !== CUSTOM_PROFILE_ID) return;
+
+    const threshold = this.getDrynessThreshold(settings);
+    const definition = this.tuyaDefinition.settings.find((s) => s.setting === SOIL_WARNING_SETTING);
+    if (definition && this.getDeviceReportedSetting(SOIL_WARNING_SETTING) !== threshold) {
+      this.log(`Custom plant profile changed, soil dryness threshold ${threshold}%`);
+      await this.queueSettingWrite(definition, threshold);
+      if (!this.isDeviceSleepy()) await this.flushPendingWrites();
     }
+    this.evaluateDrynessAlarm(settings, true);
+    this.updateDryingForecast(this.getSoilMoistureHistory(), settings);
+    this.updatePlantAlarms(settings);
+  }
+
+  private getSoilMoistureHistory(): SoilMoistureSample[] {
+    return this.getStoreValue(SOIL_HISTORY_STORE_KEY) || [];
   }
 
   /**
-   * Parse a raw Tuya frame
+   * Publish the hours until soil moisture crosses the dryness threshold (null = unknown)
+   * and trigger the "will need water within" cards.
    */
-  private parseRawTuyaFrame(frame: Buffer) {
-    try {
-      const decoded = decodeTuyaDpValuesFromZclFrame(frame);
-      if (decoded.dpValues.length === 0) return;
-
-      this.log(
-        `Decoded Tuya frame: cmd=${decoded.commandId} status=${decoded.status} transid=${decoded.transid} dpCount=${decoded.dpValues.length}`,
-      );
+  private updateDryingForecast(history: SoilMoistureSample[], settings: Record<string, any>) {
+    const forecast = forecastHoursUntilDry({
+      history,
+      thresholdPercent: this.getDrynessThreshold(settings),
+    });
+    const current = typeof forecast === 'number' ? Math.round(forecast * 10) / 10 : undefined;
+    const previous = this.hoursUntilDry;
+    this.hoursUntilDry = current;
 
-      for (const dpValue of decoded.dpValues) {
-        this.processDataPoint(dpValue.dp, dpValue.datatype, dpValue.data);
-      }
-    } catch (error) {
-      this.error('Error parsing raw Tuya frame:', error);
+    if (this.hasCapability(HOURS_UNTIL_DRY_CAPABILITY)) {
+      this.setCapabilityValue(HOURS_UNTIL_DRY_CAPABILITY, current ?? null).catch(this.error);
     }
+    if (current === undefined) return;
+
+    this.log(`Drying forecast: ${current} hours until dry`);
+    this.homey.flow.getDeviceTriggerCard('plant_will_need_water')
+      .trigger(this, { hours_until_dry: current }, { previous, current })
+      .catch(this.error);
   }
 
   /**
-   * Process a Tuya report
+   * Detect watering from the raw soil moisture rise (smoothing would flatten it).
+   * Returns true when this reading is (part of) a watering.
    */
-  private processTuyaReport(args: any) {
-    if (!args) return;
+  private checkWatering(previous: SmoothedReading | undefined, reading: SmoothedReading): boolean {
+    const detected = detectWatering({
+      previous: previous && { value: previous.raw, at: previous.at },
+      current: { value: reading.raw, at: reading.at },
+      lastWatering: this.getStoreValue(WATERING_STORE_KEY) || undefined,
+    });
+    if (!detected) return false;
+
+    const { event, merged } = detected;
+    this.log(`Watering ${merged ? 'continued' : 'detected'}: ${event.before}% -> ${event.after}% (+${event.addedPercent})`);
+    this.setStoreValue(WATERING_STORE_KEY, event).catch(this.error);
+    this.updateDaysSinceWatered(event);
+
+    // A watering spread over several reports triggers once
+    if (!merged) {
+      this.homey.flow.getDeviceTriggerCard('plant_watered')
+        .trigger(this, {
+          moisture_before: event.before,
+          moisture_after: event.after,
+          added: event.addedPercent,
+        })
+        .catch(this.error);
+    }
+    return true;
+  }
 
-    this.log('Processing Tuya report:', JSON.stringify(args));
+  private updateDaysSinceWatered(lastWatering: WateringEvent | undefined = this.getStoreValue(WATERING_STORE_KEY)) {
+    if (!lastWatering || !this.hasCapability(DAYS_SINCE_WATERED_CAPABILITY)) return;
+    this.setCapabilityValue(DAYS_SINCE_WATERED_CAPABILITY, daysSince(lastWatering.at, Date.now())).catch(this.error);
+  }
 
-    const { dp, datatype, data } = args;
+  private recordReading(name: string, raw: number, tauMinutes: number): SmoothedReading {
+    const reading = smoothReading({
+      previous: this.readings[name],
+      raw,
+      at: Date.now(),
+      tauSeconds: tauMinutes * 60,
+    });
+    this.readings[name] = reading;
+    this.setStoreValue(READINGS_STORE_KEY, this.readings).catch(this.error);
 
-    if (typeof dp === 'number' && data) {
-      this.processDataPoint(dp, datatype || 0, Buffer.isBuffer(data) ? data : Buffer.from([data]));
-    }
+    if (reading.smoothed !== raw) this.log(`${name}: raw ${raw}, smoothed ${reading.smoothed.toFixed(2)}`);
+    return reading;
   }
 
-  /**
-   * Parse a raw value from Tuya datapoint data based on datatype
-   */
-  private parseDpValue(datatype: number, data: Buffer): number | boolean {
-    switch (datatype) {
-      case TuyaDataTypes.BOOL:
-        return data.readUInt8(0) !== 0;
-      case TuyaDataTypes.VALUE:
-        if (data.length >= 4) return data.readInt32BE(0);
-        if (data.length >= 2) return data.readInt16BE(0);
-        return data.readUInt8(0);
-      case TuyaDataTypes.ENUM:
-        return data.readUInt8(0);
-      default:
-        if (data.length >= 4) return data.readInt32BE(0);
-        if (data.length >= 2) return data.readUInt16BE(0);
-        if (data.length >= 1) return data.readUInt8(0);
-        throw new Error(`Unknown datatype ${datatype} or empty data`);
-    }
+  private drynessAlarmOptions(settings: Record<string, any>): DrynessAlarmOptions {
+    return drynessAlarmOptionsFromSettings({
+      thresholdPercent: this.getDrynessThreshold(settings),
+      hysteresisPercent: settings.soil_warning_hysteresis ?? DEFAULTS.SOIL_WARNING_HYSTERESIS_PERCENT,
+      minConsecutiveReadings: settings.soil_alarm_readings ?? DEFAULTS.SOIL_ALARM_READINGS,
+      minDurationMinutes: settings.soil_alarm_delay ?? DEFAULTS.SOIL_ALARM_DELAY_MINUTES,
+    });
   }
 
   /**
-   * Process a Tuya datapoint value using the DP_HANDLERS mapping table
+   * Feed the latest soil moisture reading into the dryness alarm (hysteresis + debounce).
+   * The soil_alarm_source setting picks the raw or the smoothed stream.
+   * `immediate` skips the debounce, e.g. when the user moves the thresholds.
    */
-  private processDataPoint(dp: number, datatype: number, data: Buffer) {
-    const mapping = DP_HANDLERS[dp];
-    
-    if (!mapping) {
-      this.log(`Unknown DP ${dp} (type: ${datatype})`);
-      return;
+  private evaluateDrynessAlarm(settings: Record<string, any>, immediate = false) {
+    const reading = this.readings.soilMoisture;
+    if (!reading) return;
+    const soilMoisturePercent = settings.soil_alarm_source === 'raw' ? reading.raw : reading.smoothed;
+
+    const options = this.drynessAlarmOptions(settings);
+    if (immediate) {
+      options.minConsecutiveReadings = 1;
+      options.minDurationMs = 0;
     }
 
-    const rawValue = this.parseDpValue(datatype, data);
-    
-    // Apply divideBy transformation if specified in mapping
-    const value = mapping.divideBy && typeof rawValue === 'number' 
-      ? rawValue / mapping.divideBy 
-      : rawValue;
-
-    this.log(`Processing DP ${dp} = ${value} (handler: ${mapping.handler})`);
-
-    // Dispatch based on handler type
-    switch (mapping.handler) {
-      case 'temperature':
-        if (typeof rawValue === 'number') {
-          const tempC = rawTemperatureTimes10ToCelsius(rawValue);
-          this.log(`Setting temperature to ${tempC}°C`);
-          if (this.hasCapability('measure_temperature')) {
-            this.setCapabilityValue('measure_temperature', tempC).catch(this.error);
-          }
-        }
-        break;
-
-      case 'soilMoisture':
-        if (typeof value === 'number') {
-          const soilMoisture = clampPercent(value);
-          this.lastSoilMoisturePercent = soilMoisture;
-
-          this.log(`Setting soil moisture to ${soilMoisture}%`);
-          if (this.hasCapability('measure_soil_moisture')) {
-            this.setCapabilityValue('measure_soil_moisture', soilMoisture).catch(this.error);
-          }
-
-          // Fallback: local alarm derived from threshold setting
-          const threshold = this.getSetting('soil_warning') ?? DEFAULTS.SOIL_WARNING_PERCENT;
-          const alarm = computeWaterAlarmFromSoilMoisture({
-            soilMoisturePercent: soilMoisture,
-            thresholdPercent: threshold,
-          });
-          this.log(`Setting water alarm to ${alarm} (threshold ${threshold}%)`);
-          if (this.hasCapability('alarm_water')) {
-            this.setCapabilityValue('alarm_water', alarm).catch(this.error);
-          }
-        }
-        break;
-
-      case 'battery':
-        if (typeof value === 'number') {
-          const battery = clampPercent(value);
-          this.log(`Setting battery to ${battery}%`);
-          if (this.hasCapability('measure_battery')) {
-            this.setCapabilityValue('measure_battery', battery).catch(this.error);
-          }
-        }
-        break;
-
-      case 'humidity':
-        if (typeof value === 'number') {
-          const humidity = clampPercent(value);
-          this.log(`Setting humidity to ${humidity}%`);
-          if (this.hasCapability('measure_humidity')) {
-            this.setCapabilityValue('measure_humidity', humidity).catch(this.error);
-          }
-        }
-        break;
-
-      case 'waterWarning':
-        if (typeof value === 'number' || typeof value === 'boolean') {
-          const alarm = value === 1 || value === true;
-          this.log(`Setting water alarm to ${alarm}`);
-          if (this.hasCapability('alarm_water')) {
-            this.setCapabilityValue('alarm_water', alarm).catch(this.error);
-          }
-        }
-        break;
-
-      case 'setting':
-        this.log(`Setting DP ${dp} confirmed: ${value}`);
-        break;
+    const state = this.drynessAlarm ?? { alarm: this.getCapabilityValue('alarm_water') === true, pendingCount: 0 };
+    this.drynessAlarm = updateDrynessAlarm(state, { soilMoisturePercent, at: Date.now() }, options);
+
+    if (this.drynessAlarm.pendingCount > 0) {
+      this.log(`Water alarm change pending (${this.drynessAlarm.pendingCount}/${options.minConsecutiveReadings} readings)`);
     }
+    this.log(`Water alarm ${this.drynessAlarm.alarm} (on below ${options.onThresholdPercent}%, off from ${options.offThresholdPercent}%)`);
+    this.updateWaterAlarm(this.drynessAlarm.alarm);
   }
 
   /**
-   * Read battery status
+   * Set alarm_water and trigger the "needs water" cards when it changes.
    */
-  private async readBattery(endpoint: any) {
-    if (!endpoint.clusters[CLUSTER.POWER_CONFIGURATION.NAME]) {
-      this.log('PowerConfiguration cluster not available');
-      return;
-    }
+  private updateWaterAlarm(alarm: boolean) {
+    if (!this.hasCapability('alarm_water')) return;
 
-    try {
-      const batteryStatus = await endpoint.clusters[CLUSTER.POWER_CONFIGURATION.NAME].readAttributes(['batteryPercentageRemaining']);
-      if (batteryStatus.batteryPercentageRemaining !== undefined) {
-        const battery = Math.round(batteryStatus.batteryPercentageRemaining / 2);
-        this.log('Battery level:', battery, '%');
-        await this.setCapabilityValue('measure_battery', battery);
-      }
-    } catch (err) {
-      this.log('Could not read battery (device may be sleeping):', err);
-    }
+    const previous = this.getCapabilityValue('alarm_water') === true;
+    this.setCapabilityValue('alarm_water', alarm).catch(this.error);
+    if (alarm === previous) return;
+
+    const soilMoisture = this.lastSoilMoisturePercent ?? this.getCapabilityValue('measure_soil_moisture');
+    this.homey.flow.getDeviceTriggerCard(alarm ? 'plant_needs_water' : 'plant_no_longer_needs_water')
+      .trigger(this, { soil_moisture: typeof soilMoisture === 'number' ? soilMoisture : 0 })
+      .catch(this.error);
   }
 
   /**
@@ -365,58 +344,37 @@ module.exports = class ZG303ZDevice extends ZigBeeDevice {
     oldSettings: Record<string, any>;
     newSettings: Record<string, any>;
     changedKeys: string[];
-  }): Promise<void> {
-    this.log('Settings changed:', changedKeys);
-
-    const isSleepy = this.isDeviceSleepy();
-
-    // For sleepy devices, queue settings for when device wakes up
-    if (isSleepy) {
-      this.log('Device is sleepy - queueing settings for next wake-up');
-      this.pendingSettingsApply = true;
-    } else if (this.tuyaCluster) {
-      // Device is always-on, apply settings immediately
-      for (const key of changedKeys) {
-        const value = newSettings[key];
-        try {
-          if (key === 'temperature_sampling') {
-            await this.tuyaCluster.setDatapointValue(DP_WRITE.TEMP_SAMPLING_INTERVAL, toTuyaSamplingSeconds(value ?? DEFAULTS.SAMPLING_SECONDS));
-          }
-          if (key === 'soil_sampling') {
-            await this.tuyaCluster.setDatapointValue(DP_WRITE.SOIL_SAMPLING_INTERVAL, toTuyaSamplingSeconds(value ?? DEFAULTS.SAMPLING_SECONDS));
-          }
-          if (key === 'soil_warning') {
-            await this.tuyaCluster.setDatapointValue(DP_WRITE.SOIL_WARNING_THRESHOLD, toTuyaSoilWarningThresholdPercent(value ?? DEFAULTS.SOIL_WARNING_PERCENT));
-          }
-          if (key === 'temperature_calibration') {
-            await this.tuyaCluster.setDatapointValue(DP_WRITE.TEMP_CALIBRATION, toTuyaTemperatureCalibrationTenths(value ?? DEFAULTS.CALIBRATION));
-          }
-          if (key === 'humidity_calibration') {
-            await this.tuyaCluster.setDatapointValue(DP_WRITE.HUMIDITY_CALIBRATION, toTuyaPercentCalibration(value ?? DEFAULTS.CALIBRATION));
-          }
-          if (key === 'soil_calibration') {
-            await this.tuyaCluster.setDatapointValue(DP_WRITE.SOIL_CALIBRATION, toTuyaPercentCalibration(value ?? DEFAULTS.CALIBRATION));
-          }
-        } catch (err) {
-          this.error('Failed to apply setting to device:', err);
-        }
-      }
-    }
+  }): Promise<string | void> {
+    // A plant profile sets the dryness threshold: its minimum soil moisture is written to the device
+    // and used for the alarm and forecast, instead of the soil_warning setting
+    const { newSettings: settings, changedKeys: keys } = applyProfileThreshold({
+      oldSettings,
+      newSettings,
+      changedKeys,
+      oldProfile: this.getPlantProfile(oldSettings),
+      newProfile: this.getPlantProfile(newSettings),
+    });
+    if (keys.includes(SOIL_WARNING_SETTING)) this.log(`Soil dryness threshold ${settings.soil_warning}%`);
+
+    const message = await super.onSettings({ oldSettings, newSettings: settings, changedKeys: keys });
 
     // Always recompute local alarm immediately (doesn't require device communication)
-    if (changedKeys.includes('soil_warning')) {
-      const value = newSettings['soil_warning'];
-      if (typeof this.lastSoilMoisturePercent === 'number') {
-        const alarm = computeWaterAlarmFromSoilMoisture({
-          soilMoisturePercent: this.lastSoilMoisturePercent,
-          thresholdPercent: value ?? DEFAULTS.SOIL_WARNING_PERCENT,
-        });
-        this.log(`Recomputed water alarm to ${alarm} after threshold change`);
-        if (this.hasCapability('alarm_water')) {
-          this.setCapabilityValue('alarm_water', alarm).catch(this.error);
-        }
-      }
+    const alarmInputs = ['soil_warning', 'soil_warning_hysteresis', 'soil_alarm_source'];
+    if (keys.some((key) => alarmInputs.includes(key))) {
+      this.log('Recomputing water alarm after threshold change');
+      this.evaluateDrynessAlarm(settings, true);
+    }
+    if (keys.includes('soil_warning')) {
+      this.updateDryingForecast(this.getSoilMoistureHistory(), settings);
+    }
+    if (keys.includes('plant_profile') || keys.includes('custom_plant_profile')) {
+      this.updatePlantAlarms(settings);
     }
+    if (keys.some((key) => VPD_ALARM_SETTINGS.includes(key))) {
+      this.climate.update(settings);
+    }
+
+    return message;
   }
 
   /**
@@ -424,75 +382,9 @@ module.exports = class ZG303ZDevice extends ZigBeeDevice {
    */
   async onDeleted() {
     this.log('ZG-303Z device deleted');
-  }
-
-  /**
-   * Called when a sleepy device announces itself (wakes up and rejoins network)
-   */
-  async onEndDeviceAnnounce(): Promise<void> {
-    this.log('Device announced (woke up from sleep)');
-    await this.onDeviceAwake();
-  }
-
-  private async configureMagicPacket(zclNode: any): Promise<void> {
-    const endpoints = Object.values(zclNode.endpoints || {}) as any[];
-    const candidates = endpoints.filter((e) => e?.clusters?.[CLUSTER.BASIC.NAME]);
-    for (const endpoint of candidates) {
-      try {
-        await endpoint.clusters[CLUSTER.BASIC.NAME].readAttributes([
-          'manufacturerName',
-          'zclVersion',
-          'appVersion',
-          'modelId',
-          'powerSource',
-          0xfffe,
-        ]);
-        this.log('Sent Tuya configureMagicPacket readAttributes');
-        return;
-      } catch (err) {
-        this.log('Tuya configureMagicPacket readAttributes failed on endpoint, trying next:', err);
-      }
-    }
-  }
-
-  /**
-   * Check if device is sleepy (battery-powered, not always listening)
-   */
-  private isDeviceSleepy(): boolean {
-    return (this as any).node?.receiveWhenIdle === false;
-  }
-
-  /**
-   * Centralized handler for device wake-up events.
-   * Called from onEndDeviceAnnounce and handleFrame when data is received.
-   * Debounced to avoid duplicate processing within a short window.
-   */
-  private async onDeviceAwake(): Promise<void> {
-    const now = Date.now();
-    const DEBOUNCE_MS = 5000;
-
-    if (now - this.lastWakeHandledAt < DEBOUNCE_MS) {
-      this.log('Skipping duplicate wake handling (debounce)');
-      return;
-    }
-    this.lastWakeHandledAt = now;
-
-    this.log('Handling device wake-up');
-
-    // Mark device as available
-    await this.setAvailable().catch(this.error);
-
-    // Only apply settings if user changed them while device was sleeping
-    if (this.pendingSettingsApply) {
-      this.log('Applying pending user settings...');
-      await this.applyDeviceSettings().catch(this.error);
-      this.pendingSettingsApply = false;
-    }
-
-    // Read battery status
-    if (this.endpoint1) {
-      await this.readBattery(this.endpoint1).catch(this.error);
-    }
+    if (this.daysSinceWateredTimer) this.homey.clearInterval(this.daysSinceWateredTimer);
+    this.homey.settings.removeListener('set', this.onAppSettingSet);
+    await super.onDeleted();
   }
 
 };
@@ -1,11 +1,64 @@
 'use strict';
 
 import { ZigBeeDriver } from 'homey-zigbeedriver';
+import { crossedAboveThreshold, crossedBelowThreshold } from '../../lib/zg303z';
+
+type SoilMoistureState = { previous?: number; current: number };
+type DryingForecastState = { previous?: number; current: number };
 
 module.exports = class ZG303ZDriver extends ZigBeeDriver {
 
   async onInit() {
     this.log('ZG-303Z Driver has been initialized');
+    this.registerFlowCards();
+  }
+
+  private registerFlowCards() {
+    // Triggers: the device fires on every reading, the card's threshold decides
+    this.homey.flow.getDeviceTriggerCard('soil_moisture_became_lower')
+      .registerRunListener(async (args: any, state: SoilMoistureState) => crossedBelowThreshold({
+        previous: state.previous,
+        current: state.current,
+        threshold: args.threshold,
+      }));
+
+    this.homey.flow.getDeviceTriggerCard('soil_moisture_became_higher')
+      .registerRunListener(async (args: any, state: SoilMoistureState) => crossedAboveThreshold({
+        previous: state.previous,
+        current: state.current,
+        threshold: args.threshold,
+      }));
+
+    // Fires when the forecast drops below the card's hours (also when it was unknown before)
+    this.homey.flow.getDeviceTriggerCard('plant_will_need_water')
+      .registerRunListener(async (args: any, state: DryingForecastState) => state.current < args.hours
+        && !(typeof state.previous === 'number' && state.previous < args.hours));
+
+    // Conditions
+    this.homey.flow.getConditionCard('soil_moisture_below')
+      .registerRunListener(async (args: any) => {
+        const soilMoisture = args.device.getCapabilityValue('measure_soil_moisture');
+        return typeof soilMoisture === 'number' && soilMoisture < args.threshold;
+      });
+
+    this.homey.flow.getConditionCard('needs_water')
+      .registerRunListener(async (args: any) => args.device.getCapabilityValue('alarm_water') === true);
+
+    // Actions go through the same write path as the settings page
+    this.homey.flow.getActionCard('set_soil_warning')
+      .registerRunListener(async (args: any) => {
+        await args.device.changeSettings({ soil_warning: args.threshold });
+      });
+
+    this.homey.flow.getActionCard('set_temperature_sampling')
+      .registerRunListener(async (args: any) => {
+        await args.device.changeSettings({ temperature_sampling: args.seconds });
+      });
+
+    this.homey.flow.getActionCard('set_soil_sampling')
+      .registerRunListener(async (args: any) => {
+        await args.device.changeSettings({ soil_sampling: args.seconds });
+      });
   }
 
 };
@@ -0,0 +1,150 @@
+'use strict';
+
+import { ZigBeeDevice } from 'homey-zigbeedriver';
+import { CLUSTER } from 'zigbee-clusters';
+import {
+  appendBatteryHistory,
+  arbitrateBattery,
+  BATTERY_DEFAULTS,
+  BatterySource,
+  BatteryState,
+  createBatteryState,
+  estimateBatteryDaysRemaining,
+  percentFromBatteryPercentageRemaining,
+  percentFromBatteryVoltage,
+  recordBatteryReading,
+  updateBatteryAlarm,
+  VoltageRange,
+} from './battery';
+
+const BATTERY_STORE_KEY = 'battery';
+
+/** Setting with the low-battery alarm threshold (%) */
+export const BATTERY_LOW_THRESHOLD_SETTING = 'battery_low_threshold';
+
+/** Capability with the estimated battery life */
+export const BATTERY_DAYS_CAPABILITY = 'measure_battery_days_remaining';
+
+/**
+ * Battery handling shared by all drivers: collects readings from every source,
+ * publishes the arbitrated level, the low-battery alarm and the battery life estimate.
+ */
+export default class DeviceBattery {
+
+  private readonly device: ZigBeeDevice;
+  private readonly voltageRange: VoltageRange;
+  private state: BatteryState;
+  private deviceLowBattery = false;
+
+  constructor(device: ZigBeeDevice, voltageRange: VoltageRange) {
+    this.device = device;
+    this.voltageRange = voltageRange;
+    this.state = device.getStoreValue(BATTERY_STORE_KEY) || createBatteryState();
+  }
+
+  /**
+   * Add the alarm and estimate capabilities (also for devices paired before they existed).
+   */
+  async addCapabilities(): Promise<void> {
+    for (const capability of ['alarm_battery', BATTERY_DAYS_CAPABILITY]) {
+      if (!this.device.hasCapability(capability)) {
+        await this.device.addCapability(capability);
+      }
+    }
+  }
+
+  /**
+   * Listen for batteryVoltage reports; percentage reports arrive through the measure_battery reportParser.
+   */
+  listen(endpoint: any) {
+    endpoint?.clusters[CLUSTER.POWER_CONFIGURATION.NAME]?.on('attr.batteryVoltage', (value: number) => {
+      this.reportVoltage(value);
+    });
+  }
+
+  /**
+   * Read the Power Configuration cluster (percentage and voltage).
+   */
+  async read(endpoint: any): Promise<void> {
+    const powerCluster = endpoint?.clusters[CLUSTER.POWER_CONFIGURATION.NAME];
+    if (!powerCluster) {
+      this.device.log('PowerConfiguration cluster not available');
+      return;
+    }
+
+    try {
+      const attributes = await powerCluster.readAttributes(['batteryPercentageRemaining', 'batteryVoltage']);
+      this.reportPercentageRemaining(attributes.batteryPercentageRemaining);
+      this.reportVoltage(attributes.batteryVoltage);
+    } catch (err) {
+      this.device.log('Could not read battery (device may be sleeping):', err);
+    }
+  }
+
+  reportPercentageRemaining(raw: unknown) {
+    this.report('percentage', percentFromBatteryPercentageRemaining(raw));
+  }
+
+  reportVoltage(raw: unknown) {
+    this.report('voltage', percentFromBatteryVoltage(raw, this.voltageRange));
+  }
+
+  /**
+   * Store a new reading and add the resulting level to the discharge history.
+   */
+  report(source: BatterySource, percent: number | undefined) {
+    if (percent === undefined) return;
+    const now = Date.now();
+    this.state = recordBatteryReading(this.state, source, { percent, at: now });
+    const level = arbitrateBattery(this.state, now);
+    if (level) {
+      this.state = {
+        sources: this.state.sources,
+        history: appendBatteryHistory(this.state.history, { percent: level.percent, at: now }),
+        alarm: this.state.alarm,
+      };
+    }
+    this.update();
+  }
+
+  /**
+   * Low-battery flag reported by the device itself (e.g. the IAS zone status battery bit).
+   */
+  setDeviceLowBattery(low: boolean) {
+    this.deviceLowBattery = low;
+    this.publishAlarm();
+  }
+
+  /**
+   * Publish the arbitrated level, alarm and estimate (also after the threshold setting changed).
+   * The history only grows with new readings (see report), so this can be called at any time.
+   */
+  update(threshold: number = this.device.getSetting(BATTERY_LOW_THRESHOLD_SETTING) ?? BATTERY_DEFAULTS.LOW_THRESHOLD_PERCENT) {
+    const level = arbitrateBattery(this.state, Date.now());
+    if (level) {
+      this.state = {
+        sources: this.state.sources,
+        history: this.state.history,
+        alarm: updateBatteryAlarm(this.state.alarm, level.percent, threshold),
+      };
+      this.device.setStoreValue(BATTERY_STORE_KEY, this.state).catch(this.device.error);
+
+      this.device.log(`Battery level: ${level.percent}% (${level.source})`);
+      this.setCapability('measure_battery', level.percent);
+
+      const days = estimateBatteryDaysRemaining(this.state.history);
+      this.setCapability(BATTERY_DAYS_CAPABILITY, typeof days === 'number' ? Math.round(days) : null);
+    }
+    this.publishAlarm();
+  }
+
+  private publishAlarm() {
+    this.setCapability('alarm_battery', this.state.alarm || this.deviceLowBattery);
+  }
+
+  private setCapability(capability: string, value: any) {
+    if (!this.device.hasCapability(capability)) return;
+    this.device.setCapabilityValue(capability, value).catch(this.device.error);
+  }
+
+}
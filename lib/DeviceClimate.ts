@@ -0,0 +1,77 @@
+'use strict';
+
+import { ZigBeeDevice } from 'homey-zigbeedriver';
+import { computeClimateMetrics, updateVpdAlarm, VPD_ALARM_DEFAULTS } from './climate';
+
+export const DEW_POINT_CAPABILITY = 'measure_dew_point';
+export const ABSOLUTE_HUMIDITY_CAPABILITY = 'measure_absolute_humidity';
+export const VPD_CAPABILITY = 'measure_vpd';
+export const VPD_ALARM_CAPABILITY = 'alarm_generic.vpd';
+
+/** Settings with the VPD alarm bounds (kPa) */
+export const VPD_ALARM_SETTINGS = ['vpd_alarm_min', 'vpd_alarm_max'];
+
+/**
+ * Dew point, absolute humidity and VPD for drivers that measure temperature and humidity.
+ * Keeps the latest inputs so either one updating recomputes the metrics.
+ */
+export default class DeviceClimate {
+
+  private readonly device: ZigBeeDevice;
+  private temperature?: number;
+  private humidity?: number;
+
+  constructor(device: ZigBeeDevice) {
+    this.device = device;
+  }
+
+  /**
+   * Add the metric capabilities (also for devices paired before they existed)
+   * and start from the last known readings.
+   */
+  async addCapabilities(): Promise<void> {
+    for (const capability of [DEW_POINT_CAPABILITY, ABSOLUTE_HUMIDITY_CAPABILITY, VPD_CAPABILITY, VPD_ALARM_CAPABILITY]) {
+      if (!this.device.hasCapability(capability)) {
+        await this.device.addCapability(capability);
+      }
+    }
+    if (this.temperature === undefined) this.temperature = this.device.getCapabilityValue('measure_temperature') ?? undefined;
+    if (this.humidity === undefined) this.humidity = this.device.getCapabilityValue('measure_humidity') ?? undefined;
+  }
+
+  setTemperature(temperatureC: number) {
+    this.temperature = temperatureC;
+    this.update();
+  }
+
+  setHumidity(relativeHumidity: number) {
+    this.humidity = relativeHumidity;
+    this.update();
+  }
+
+  /**
+   * Recompute and publish the metrics (also after the VPD alarm bounds changed).
+   */
+  update(settings: Record<string, any> = this.device.getSettings()) {
+    const metrics = computeClimateMetrics(this.temperature, this.humidity);
+    if (!metrics) return;
+
+    this.setCapability(DEW_POINT_CAPABILITY, metrics.dewPointC);
+    this.setCapability(ABSOLUTE_HUMIDITY_CAPABILITY, metrics.absoluteHumidityGm3);
+    this.setCapability(VPD_CAPABILITY, metrics.vpdKpa);
+
+    const previous = this.device.getCapabilityValue(VPD_ALARM_CAPABILITY) === true;
+    const alarm = updateVpdAlarm(previous, metrics.vpdKpa, {
+      minKpa: settings.vpd_alarm_min ?? VPD_ALARM_DEFAULTS.MIN_KPA,
+      maxKpa: settings.vpd_alarm_max ?? VPD_ALARM_DEFAULTS.MAX_KPA,
+    });
+    if (alarm !== previous) this.device.log(`VPD alarm ${alarm} (${metrics.vpdKpa} kPa)`);
+    this.setCapability(VPD_ALARM_CAPABILITY, alarm);
+  }
+
+  private setCapability(capability: string, value: any) {
+    if (!this.device.hasCapability(capability)) return;
+    this.device.setCapabilityValue(capability, value).catch(this.device.error);
+  }
+
+}
@@ -0,0 +1,133 @@
+'use strict';
+
+import { ZigBeeDevice } from 'homey-zigbeedriver';
+import { CLUSTER } from 'zigbee-clusters';
+import {
+  allocateZoneId,
+  IAS_CIE_ADDRESS_SETTING,
+  IAS_HEARD_WINDOW_MS,
+  IAS_ZONE_ID_STORE_KEY,
+  IASZoneAttributes,
+  INVALID_ZONE_ID,
+  normalizeIeeeAddress,
+  planEnrollment,
+  shouldForgetCieAddress,
+} from './iasEnrollment';
+
+/**
+ * IAS Zone enrollment for drivers with an IAS Zone cluster: writes the CIE address,
+ * answers enroll requests with the device's persisted zone ID and verifies the enrollment.
+ */
+export default class DeviceIASZone {
+
+  private readonly device: ZigBeeDevice;
+  private verifying = false;
+  private lastHeardAt?: number;
+
+  constructor(device: ZigBeeDevice) {
+    this.device = device;
+  }
+
+  /**
+   * Zone ID of this device, assigned once and kept in the store.
+   */
+  get zoneId(): number {
+    const stored = this.device.getStoreValue(IAS_ZONE_ID_STORE_KEY);
+    if (typeof stored === 'number') return stored;
+
+    const used = this.device.driver.getDevices()
+      .filter((device) => device !== this.device)
+      .map((device) => device.getStoreValue(IAS_ZONE_ID_STORE_KEY));
+    const zoneId = allocateZoneId(used);
+    this.device.setStoreValue(IAS_ZONE_ID_STORE_KEY, zoneId).catch(this.device.error);
+    return zoneId;
+  }
+
+  /**
+   * A zone status notification from the device reached Homey.
+   */
+  onStatusNotification() {
+    this.lastHeardAt = Date.now();
+  }
+
+  /**
+   * Zone ID from a status notification; a different one than assigned means the enrollment changed.
+   */
+  async checkZoneId(zoneId: number | undefined, endpoint: any): Promise<void> {
+    const stored = this.device.getStoreValue(IAS_ZONE_ID_STORE_KEY);
+    if (zoneId === undefined || typeof stored !== 'number' || zoneId === stored) return;
+    this.device.log(`Notification for zone ID ${zoneId}, expected ${stored}: verifying enrollment`);
+    await this.verify(endpoint);
+  }
+
+  /**
+   * Enroll-request mode: the device asked to be enrolled.
+   */
+  async onEnrollRequest(endpoint: any): Promise<void> {
+    this.lastHeardAt = Date.now();
+    await this.sendEnrollResponse(endpoint);
+  }
+
+  /**
+   * Check the enrollment and repair it when the device is not enrolled with Homey.
+   * Resolves to whether the device is enrolled; sleepy devices only answer while awake.
+   */
+  async verify(endpoint: any): Promise<boolean> {
+    const iasZone = endpoint?.clusters[CLUSTER.IAS_ZONE.NAME];
+    if (!iasZone || this.verifying) return false;
+    this.verifying = true;
+
+    try {
+      const attributes: IASZoneAttributes = await iasZone.readAttributes(['zoneState', 'iasCIEAddress', 'zoneId']);
+      this.device.log('IAS Zone enrollment:', JSON.stringify(attributes));
+
+      const knownCieAddress = this.device.homey.settings.get(IAS_CIE_ADDRESS_SETTING);
+      const heardByHomey = this.lastHeardAt !== undefined && Date.now() - this.lastHeardAt < IAS_HEARD_WINDOW_MS;
+      const plan = planEnrollment(attributes, knownCieAddress, heardByHomey);
+      if (plan.learnCieAddress) {
+        this.device.log(`Learned CIE address ${plan.learnCieAddress}`);
+        this.device.homey.settings.set(IAS_CIE_ADDRESS_SETTING, plan.learnCieAddress);
+      }
+      if (!plan.enroll) {
+        // Keep the zone ID the device was enrolled with (e.g. by Homey at pairing)
+        const { zoneId } = attributes;
+        if (typeof zoneId === 'number' && zoneId !== INVALID_ZONE_ID && zoneId !== this.device.getStoreValue(IAS_ZONE_ID_STORE_KEY)) {
+          await this.device.setStoreValue(IAS_ZONE_ID_STORE_KEY, zoneId);
+        }
+        return true;
+      }
+
+      if (plan.writeCieAddress) {
+        this.device.log(`Writing CIE address ${plan.writeCieAddress}`);
+        await iasZone.writeAttributes({ iasCIEAddress: plan.writeCieAddress });
+      } else if (!normalizeIeeeAddress(attributes.iasCIEAddress)) {
+        this.device.log('CIE address unknown, waiting for an enrolled IAS device to report to Homey to learn it');
+      }
+
+      // Auto-enroll-response mode: an unsolicited response completes the enrollment
+      await this.sendEnrollResponse(endpoint);
+
+      const { zoneState } = await iasZone.readAttributes(['zoneState']);
+      this.device.log(`IAS Zone state after enrollment: ${zoneState}`);
+      if (shouldForgetCieAddress(plan, knownCieAddress, zoneState)) {
+        this.device.log(`Forgetting CIE address ${plan.writeCieAddress}: the device did not enroll with it`);
+        this.device.homey.settings.unset(IAS_CIE_ADDRESS_SETTING);
+      }
+      return zoneState === 'enrolled';
+    } catch (err) {
+      this.device.log('Could not verify IAS Zone enrollment (device may be sleeping):', err);
+      return false;
+    } finally {
+      this.verifying = false;
+    }
+  }
+
+  private async sendEnrollResponse(endpoint: any): Promise<void> {
+    const iasZone = endpoint?.clusters[CLUSTER.IAS_ZONE.NAME];
+    if (!iasZone) return;
+    const { zoneId } = this;
+    this.device.log(`Sending IAS Zone enroll response, zone ID ${zoneId}`);
+    await iasZone.zoneEnrollResponse({ enrollResponseCode: 'success', zoneId });
+  }
+
+}
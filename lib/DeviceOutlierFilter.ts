@@ -0,0 +1,38 @@
+'use strict';
+
+import { ZigBeeDevice } from 'homey-zigbeedriver';
+import { createOutlierFilterState, filterOutlier, OutlierFilterOptions } from './outlierFilter';
+
+/** Checkbox setting that turns the outlier filter off */
+export const OUTLIER_FILTER_SETTING = 'outlier_filter';
+
+const OUTLIER_FILTER_STORE_KEY = 'outlierFilter';
+
+/**
+ * Spike rejection for a device's readings (see lib/outlierFilter), unless disabled in the settings.
+ * The filter state, including the number of rejected samples, is kept in the store per metric name.
+ * Readings go in unclamped, so out-of-range values can be rejected.
+ */
+export default class DeviceOutlierFilter {
+
+  private readonly device: ZigBeeDevice;
+
+  constructor(device: ZigBeeDevice) {
+    this.device = device;
+  }
+
+  accept(name: string, value: number, options: OutlierFilterOptions): boolean {
+    if (this.device.getSetting(OUTLIER_FILTER_SETTING) === false) return true;
+
+    const states = this.device.getStoreValue(OUTLIER_FILTER_STORE_KEY) || {};
+    const result = filterOutlier(states[name] ?? createOutlierFilterState(), { value, at: Date.now() }, options);
+    states[name] = result.state;
+    this.device.setStoreValue(OUTLIER_FILTER_STORE_KEY, states).catch(this.device.error);
+
+    if (!result.accepted) {
+      this.device.log(`Rejected ${name} = ${value} as outlier (${result.reason}), ${result.state.rejected} rejected so far`);
+    }
+    return result.accepted;
+  }
+
+}
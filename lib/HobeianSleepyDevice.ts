@@ -0,0 +1,288 @@
+'use strict';
+
+import { ZigBeeDevice } from 'homey-zigbeedriver';
+import { BATTERY_VOLTAGE_RANGES, VoltageRange } from './battery';
+import DeviceBattery, { BATTERY_LOW_THRESHOLD_SETTING } from './DeviceBattery';
+import DeferredWorkQueue, { DeferredWork } from './deferredWork';
+import { missingBasicInfoAttributes, readBasicInfo, toDeviceInfoSettings } from './deviceInfo';
+import { LINK_QUALITY_CAPABILITY, linkQualityFromFrameMeta, SIGNAL_STRENGTH_CAPABILITY } from './linkQuality';
+import OfflineWatchdog, {
+  DEFAULT_MISSED_PERIODS,
+  formatLastSeen,
+  LAST_SEEN_CAPABILITY,
+  LAST_SEEN_STORE_KEY,
+  OFFLINE_MISSED_PERIODS_SETTING,
+  OfflineEvent,
+  offlineAfterMs,
+  watchIncomingFrames,
+} from './offlineWatchdog';
+import { getTimezoneOffsetMinutes } from './tuyaTime';
+
+// Wake-ups (announce, frames) within this window are handled once
+const WAKE_DEBOUNCE_MS = 5000;
+
+// Last seen is published at most this often
+const LAST_SEEN_PUBLISH_INTERVAL_MS = 60000;
+
+/**
+ * Base class for Hobeian devices, most of which are sleepy (battery-powered) end devices.
+ *
+ * Handles what every driver needs: battery, last seen and the offline watchdog, link quality,
+ * device info and debounced wake-up handling. Work that needs the device awake can be deferred
+ * with deferUntilAwake; subclasses add their own wake-up work in onWake.
+ */
+export default abstract class HobeianSleepyDevice extends ZigBeeDevice {
+
+  protected endpoint1: any = null;
+  protected battery!: DeviceBattery;
+
+  /** Battery pack, used when the level has to be derived from batteryVoltage */
+  protected batteryVoltageRange: VoltageRange = BATTERY_VOLTAGE_RANGES.AAA_2;
+
+  private lastWakeHandledAt = 0;
+  // Basic attributes the firmware does not implement stay missing; they are read once per startup
+  private basicInfoReadSinceStartup = false;
+  private offlineWatchdog?: OfflineWatchdog;
+  private lastSeenPublishedAt = 0;
+  private readonly deferredWork = new DeferredWorkQueue((...args) => this.log(...args));
+
+  async onNodeInit({ zclNode }: { zclNode: any }) {
+    this.battery = new DeviceBattery(this, this.batteryVoltageRange);
+
+    this.log('Available endpoints:', Object.keys(zclNode.endpoints));
+    for (const [endpointId, endpoint] of Object.entries(zclNode.endpoints)) {
+      this.log(`Endpoint ${endpointId} clusters:`, Object.keys((endpoint as any).clusters));
+    }
+
+    const endpoint = zclNode.endpoints[1];
+    if (!endpoint) {
+      this.error('Endpoint 1 not found');
+      return;
+    }
+    this.endpoint1 = endpoint;
+
+    const isSleepy = this.isDeviceSleepy();
+    this.log(`Device is ${isSleepy ? 'sleepy (battery-powered)' : 'always-on'}`);
+
+    await this.battery.addCapabilities().catch(this.error);
+    this.battery.listen(endpoint);
+    if (!isSleepy) {
+      await this.battery.read(endpoint).catch(this.error);
+    }
+
+    await this.startOfflineWatchdog().catch(this.error);
+  }
+
+  /**
+   * Longest time (ms) between two reports, from the (new) settings. Undefined disables the offline watchdog.
+   */
+  protected abstract getReportPeriodMs(settings: Record<string, any>): number | undefined;
+
+  /**
+   * Settings the report period depends on; changing one restarts the offline watchdog.
+   */
+  protected get reportPeriodSettings(): string[] {
+    return [];
+  }
+
+  /**
+   * Watch incoming frames and mark the device unavailable after too many missed report periods.
+   */
+  private async startOfflineWatchdog(): Promise<void> {
+    for (const capability of [LAST_SEEN_CAPABILITY, LINK_QUALITY_CAPABILITY, SIGNAL_STRENGTH_CAPABILITY]) {
+      if (!this.hasCapability(capability)) {
+        await this.addCapability(capability);
+      }
+    }
+    this.offlineWatchdog = new OfflineWatchdog(this.homey, (event) => {
+      this.onOffline(event).catch(this.error);
+    });
+    watchIncomingFrames(this.node, (endpointId, clusterId, meta) => this.onFrameReceived(meta));
+    this.restartOfflineWatchdog(this.getSettings());
+  }
+
+  protected restartOfflineWatchdog(settings: Record<string, any>) {
+    const offlineAfter = offlineAfterMs(
+      this.getReportPeriodMs(settings),
+      settings[OFFLINE_MISSED_PERIODS_SETTING] ?? DEFAULT_MISSED_PERIODS,
+    );
+    this.log(`Offline watchdog: ${offlineAfter ? `${Math.round(offlineAfter / 60000)} minutes without reports` : 'disabled'}`);
+    this.offlineWatchdog?.start(offlineAfter, this.getStoreValue(LAST_SEEN_STORE_KEY) ?? undefined);
+  }
+
+  /**
+   * A frame was received: the device is alive and listening for a moment, so deferred work is sent now.
+   */
+  private onFrameReceived(meta: any) {
+    this.markSeen();
+    this.updateLinkQuality(meta);
+    if (this.deferredWork.size > 0) this.runDeferredWork().catch(this.error);
+  }
+
+  /**
+   * Rearm the watchdog and publish the last seen time (at most once a minute).
+   */
+  private markSeen() {
+    const now = Date.now();
+    if (this.offlineWatchdog?.seen(now)) {
+      this.log('Device is back online');
+      this.setAvailable().catch(this.error);
+    }
+    if (now - this.lastSeenPublishedAt < LAST_SEEN_PUBLISH_INTERVAL_MS) return;
+    this.lastSeenPublishedAt = now;
+
+    this.setStoreValue(LAST_SEEN_STORE_KEY, now).catch(this.error);
+    this.setCapabilityValue(LAST_SEEN_CAPABILITY, this.formatLastSeen(now)).catch(this.error);
+  }
+
+  private updateLinkQuality(meta: any) {
+    const { lqi, rssi } = linkQualityFromFrameMeta(meta);
+    if (lqi !== undefined && this.getCapabilityValue(LINK_QUALITY_CAPABILITY) !== lqi) {
+      this.setCapabilityValue(LINK_QUALITY_CAPABILITY, lqi).catch(this.error);
+    }
+    if (rssi !== undefined && this.getCapabilityValue(SIGNAL_STRENGTH_CAPABILITY) !== rssi) {
+      this.setCapabilityValue(SIGNAL_STRENGTH_CAPABILITY, rssi).catch(this.error);
+    }
+  }
+
+  /**
+   * Local time as shown by the last seen capability.
+   */
+  protected formatLastSeen(at: number): string {
+    return formatLastSeen(at, getTimezoneOffsetMinutes(this.homey.clock.getTimezone(), new Date(at)));
+  }
+
+  private async onOffline({ lastSeen, silentMs }: OfflineEvent): Promise<void> {
+    const hours = Math.round((silentMs / 3600000) * 10) / 10;
+    const lastSeenText = this.formatLastSeen(lastSeen);
+    this.log(`No reports for ${hours} hours (last seen ${lastSeenText}) - marking unavailable`);
+
+    // After a restart the device may already be unavailable; trigger once per outage
+    const wasAvailable = this.getAvailable();
+    await this.setUnavailable(this.homey.__('warnings.offline', { last_seen: lastSeenText }));
+    if (!wasAvailable) return;
+    await this.homey.flow.getDeviceTriggerCard('device_went_offline')
+      .trigger(this, { last_seen: lastSeenText, hours_silent: hours });
+  }
+
+  /**
+   * Run `work` the next time the device is heard from (a received frame or wake-up), when it
+   * listens for a moment. Queuing work under the same name replaces it.
+   * Not persisted: after a restart, subclasses re-queue from their own stored state.
+   */
+  protected deferUntilAwake(name: string, work: DeferredWork) {
+    this.deferredWork.defer(name, work);
+  }
+
+  /**
+   * Run the deferred work (one run at a time). Work that fails or resolves to false stays queued.
+   */
+  protected async runDeferredWork(): Promise<void> {
+    return this.deferredWork.run();
+  }
+
+  /**
+   * Read Basic cluster info into the read-only device info settings, as far as it is not known yet
+   * (and not read since startup). Attributes already read elsewhere can be passed in `known`.
+   */
+  protected async collectDeviceInfo(known: Record<string, unknown> = {}): Promise<void> {
+    const settings = toDeviceInfoSettings(known);
+    const missing = missingBasicInfoAttributes((key) => settings[key] || this.getSetting(key));
+
+    if (missing.length === 0 || this.basicInfoReadSinceStartup) {
+      this.basicInfoReadSinceStartup = true;
+    } else {
+      try {
+        const read = toDeviceInfoSettings(await readBasicInfo(this.zclNode, missing));
+        for (const [key, value] of Object.entries(read)) settings[key] = value;
+        this.basicInfoReadSinceStartup = true;
+      } catch (err) {
+        this.log('Could not read device info (device may be sleeping):', err);
+      }
+    }
+
+    if (Object.keys(settings).length > 0) {
+      this.log('Device info:', settings);
+      await this.setSettings(settings);
+    }
+  }
+
+  /**
+   * Whether device info is still missing and worth asking for on this wake.
+   * Subclasses add their own fields; each is asked for until it arrives.
+   */
+  protected isDeviceInfoMissing(): boolean {
+    if (this.basicInfoReadSinceStartup) return false;
+    return missingBasicInfoAttributes((key) => this.getSetting(key)).length > 0;
+  }
+
+  /**
+   * Handle the settings every driver has. Subclasses call this before their own handling.
+   */
+  async onSettings({ newSettings, changedKeys }: {
+    oldSettings: Record<string, any>;
+    newSettings: Record<string, any>;
+    changedKeys: string[];
+  }): Promise<string | void> {
+    const watchdogInputs = [OFFLINE_MISSED_PERIODS_SETTING, ...this.reportPeriodSettings];
+    if (changedKeys.some((key) => watchdogInputs.includes(key))) {
+      this.restartOfflineWatchdog(newSettings);
+    }
+    if (changedKeys.includes(BATTERY_LOW_THRESHOLD_SETTING)) {
+      this.battery.update(newSettings[BATTERY_LOW_THRESHOLD_SETTING]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Called when a sleepy device announces itself (wakes up and rejoins the network).
+   */
+  async onEndDeviceAnnounce(): Promise<void> {
+    this.log('Device announced (woke up from sleep)');
+    await this.onDeviceAwake();
+  }
+
+  /**
+   * Centralized handler for device wake-up events, debounced to avoid duplicate processing.
+   */
+  protected async onDeviceAwake(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastWakeHandledAt < WAKE_DEBOUNCE_MS) {
+      this.log('Skipping duplicate wake handling (debounce)');
+      return;
+    }
+    this.lastWakeHandledAt = now;
+
+    this.log('Handling device wake-up');
+    await this.setAvailable().catch(this.error);
+    await this.runDeferredWork().catch(this.error);
+    await this.onWake().catch(this.error);
+
+    if (this.endpoint1) {
+      await this.battery.read(this.endpoint1).catch(this.error);
+    }
+    if (this.isDeviceInfoMissing()) {
+      await this.collectDeviceInfo().catch(this.error);
+    }
+  }
+
+  /**
+   * Device-specific work while the device is awake, before the battery and device info are read.
+   */
+  protected async onWake(): Promise<void> {
+    return undefined;
+  }
+
+  /**
+   * Sleepy devices (battery-powered) only listen briefly after they sent something.
+   */
+  protected isDeviceSleepy(): boolean {
+    return (this as any).node?.receiveWhenIdle === false;
+  }
+
+  async onDeleted() {
+    this.offlineWatchdog?.stop();
+    await super.onDeleted();
+  }
+
+}
@@ -11,16 +11,14 @@ export default class IASZoneBoundCluster extends BoundCluster {
     this.device = device;
   }
 
-  zoneStatusChangeNotification({
-    zoneStatus,
-  }: {
-    zoneStatus: Record<string, boolean>;
+  zoneStatusChangeNotification(payload: {
+    zoneStatus: unknown;
     extendedStatus: number;
     zoneId: number;
     delay: number;
   }) {
-    this.device.log('IAS Zone status change:', JSON.stringify(zoneStatus));
-    this.device.onZoneStatusChange(zoneStatus);
+    this.device.log('IAS Zone status change notification');
+    this.device.onZoneStatusNotification(payload);
   }
 
   zoneEnrollRequest({
@@ -31,7 +29,8 @@ export default class IASZoneBoundCluster extends BoundCluster {
     manufacturerCode: number;
   }) {
     this.device.log('IAS Zone enroll request:', zoneType, 'manufacturer:', manufacturerCode);
-    return { enrollResponseCode: 0, zoneId: 0 };
+    // The command defines no response, so the device answers with its own zoneEnrollResponse
+    this.device.onZoneEnrollRequest();
   }
 
 }
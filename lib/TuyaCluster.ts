@@ -1,27 +1,77 @@
 'use strict';
 
-import { Cluster, ZCLDataTypes } from 'zigbee-clusters';
+import { Cluster, ZCLDataType, ZCLDataTypes } from 'zigbee-clusters';
+import {
+  decodeTuyaDpValues, encodeTuyaDpData, encodeTuyaDpValues, TuyaBitmapWidth, TuyaDataTypes, TuyaDpValue, TuyaValue,
+} from './tuyaFrame';
+import type { TuyaReport } from './tuyaIngestion';
+import TuyaTransactionTracker from './tuyaTransactions';
 
 const TUYA_CLUSTER_ID = 61184; // 0xEF00
 
-// Tuya datapoint types
-const TuyaDataTypes = {
-  RAW: 0x00,
-  BOOL: 0x01,
-  VALUE: 0x02,
-  STRING: 0x03,
-  ENUM: 0x04,
-  BITMAP: 0x05,
-};
-
 // Tuya protocol command IDs
 export const TUYA_CMD = {
+  DATAPOINT: 0x00,
+  REPORTING: 0x01,
+  RESPONSE: 0x02,
   DATA_QUERY: 0x03,
+  MCU_VERSION_REQUEST: 0x10,
+  MCU_VERSION_RESPONSE: 0x11,
+  TIME_SYNC: 0x24,
 } as const;
 
 // Tuya magic attribute for waking devices
 export const TUYA_MAGIC_ATTRIBUTE = 0xFFFE;
 
+export type TuyaWriteOptions = {
+  /** Wait for the device to echo the DP (default true) */
+  waitForAck?: boolean;
+  /** Time to wait for the echo per attempt */
+  timeoutMs?: number;
+  /** Extra attempts (with a fresh transid) after a timeout */
+  retries?: number;
+  bitmapWidth?: TuyaBitmapWidth;
+};
+
+export const DEFAULT_WRITE_TIMEOUT_MS = 10000;
+
+/**
+ * Longest DP list that fits one frame: zigbee-clusters caps the ZCL payload at 255 bytes
+ * (and copying into its fixed buffers silently truncates), of which status and transid take two.
+ */
+export const MAX_TUYA_DP_LIST_LENGTH = 253;
+
+/**
+ * ZCL data type for the datapoint entries after status and transid:
+ *   [dp:1][datatype:1][len:2 BE][data:len]...
+ * Takes the rest of the frame, so a frame with several DPs decodes into all of them.
+ * Encoding throws when the list does not fit, rather than sending a truncated frame.
+ */
+export const TuyaDpList = new ZCLDataType(
+  NaN,
+  'tuyaDpList',
+  -0,
+  (buf: Buffer, dpValues: TuyaDpValue[], index: number): number => {
+    const encoded = encodeTuyaDpValues(dpValues);
+    const available = Math.min(buf.length - index, MAX_TUYA_DP_LIST_LENGTH);
+    if (encoded.length > available) {
+      throw new RangeError(`DP list of ${encoded.length} bytes does not fit in the frame (max ${available})`);
+    }
+    return encoded.copy(buf, index);
+  },
+  (buf: Buffer, index: number, returnLength?: boolean) => {
+    const dpValues = decodeTuyaDpValues(buf, index);
+    return returnLength ? { result: dpValues, length: buf.length - index } : dpValues;
+  },
+);
+
+// Arguments of the datapoint, reporting and response commands
+type TuyaDatapointArgs = {
+  status: number;
+  transid: number;
+  dpValues: TuyaDpValue[];
+};
+
 class TuyaSpecificCluster extends Cluster {
 
   static get ID() {
@@ -39,85 +89,210 @@ class TuyaSpecificCluster extends Cluster {
   static get COMMANDS() {
     return {
       datapoint: {
-        id: 0x00,
+        id: TUYA_CMD.DATAPOINT,
         args: {
           status: ZCLDataTypes.uint8,
           transid: ZCLDataTypes.uint8,
-          dp: ZCLDataTypes.uint8,
-          datatype: ZCLDataTypes.uint8,
-          length: ZCLDataTypes.uint16,
-          data: ZCLDataTypes.buffer,
+          dpValues: TuyaDpList,
         },
       },
       reporting: {
-        id: 0x01,
+        id: TUYA_CMD.REPORTING,
         args: {
           status: ZCLDataTypes.uint8,
           transid: ZCLDataTypes.uint8,
-          dp: ZCLDataTypes.uint8,
-          datatype: ZCLDataTypes.uint8,
-          length: ZCLDataTypes.uint16,
-          data: ZCLDataTypes.buffer,
+          dpValues: TuyaDpList,
         },
       },
       response: {
-        id: 0x02,
+        id: TUYA_CMD.RESPONSE,
         args: {
           status: ZCLDataTypes.uint8,
           transid: ZCLDataTypes.uint8,
-          dp: ZCLDataTypes.uint8,
-          datatype: ZCLDataTypes.uint8,
-          length: ZCLDataTypes.uint16,
-          data: ZCLDataTypes.buffer,
+          dpValues: TuyaDpList,
+        },
+      },
+      // Ask the device to re-report all datapoints
+      dataQuery: {
+        id: TUYA_CMD.DATA_QUERY,
+      },
+      // Ask the MCU for its firmware version
+      mcuVersionRequest: {
+        id: TUYA_CMD.MCU_VERSION_REQUEST,
+        args: {
+          seq: ZCLDataTypes.data16,
+        },
+      },
+      // Version byte: see formatTuyaMcuVersion
+      mcuVersionResponse: {
+        id: TUYA_CMD.MCU_VERSION_RESPONSE,
+        args: {
+          seq: ZCLDataTypes.data16,
+          version: ZCLDataTypes.uint8,
+        },
+      },
+      // Device asks for the current time (payload content varies per firmware)
+      timeRequest: {
+        id: TUYA_CMD.TIME_SYNC,
+        direction: Cluster.DIRECTION_SERVER_TO_CLIENT,
+        args: {
+          payload: ZCLDataTypes.buffer,
+        },
+      },
+      // Gateway answer: [payloadSize:2 LE][utc:4 BE][local:4 BE]
+      timeResponse: {
+        id: TUYA_CMD.TIME_SYNC,
+        direction: Cluster.DIRECTION_CLIENT_TO_SERVER,
+        args: {
+          payloadSize: ZCLDataTypes.uint16,
+          payload: ZCLDataTypes.buffer,
         },
       },
     };
   }
 
   // Declare the dynamically created command method from COMMANDS
-  datapoint!: (args: {
-    status: number;
-    transid: number;
-    dp: number;
-    datatype: number;
-    length: number;
-    data: Buffer;
+  datapoint!: (args: TuyaDatapointArgs, opts?: { disableDefaultResponse?: boolean; waitForResponse?: boolean }) => Promise<void>;
+
+  dataQuery!: (args?: object, opts?: { disableDefaultResponse?: boolean; waitForResponse?: boolean }) => Promise<void>;
+
+  mcuVersionRequest!: (args: { seq: number }, opts?: { disableDefaultResponse?: boolean; waitForResponse?: boolean }) => Promise<void>;
+
+  timeResponse!: (args: {
+    payloadSize: number;
+    payload: Buffer;
   }, opts?: { disableDefaultResponse?: boolean; waitForResponse?: boolean }) => Promise<void>;
 
-  // Send a datapoint command to the device
-  async sendDatapoint(dp: number, datatype: number, data: Buffer) {
-    const transid = Math.floor(Math.random() * 255);
-    // Use the dynamically created datapoint method from COMMANDS
-    // disableDefaultResponse: true to avoid waiting for a response that may not come
-    return this.datapoint({
-      status: 0,
-      transid,
-      dp,
-      datatype,
-      length: data.length,
-      data,
-    }, { disableDefaultResponse: true });
+  // Incoming datapoints: surface them as 'datapoint', 'reporting' and 'response' events (see emitReport)
+  onDatapoint(args: TuyaDatapointArgs, meta: unknown, frame?: { trxSequenceNumber?: number }) {
+    this.emitReport('datapoint', TUYA_CMD.DATAPOINT, args, frame);
+  }
+
+  onReporting(args: TuyaDatapointArgs, meta: unknown, frame?: { trxSequenceNumber?: number }) {
+    this.emitReport('reporting', TUYA_CMD.REPORTING, args, frame);
+  }
+
+  onResponse(args: TuyaDatapointArgs, meta: unknown, frame?: { trxSequenceNumber?: number }) {
+    this.emitReport('response', TUYA_CMD.RESPONSE, args, frame);
+  }
+
+  // Events carry a TuyaReport with all DPs of the frame and its ZCL sequence number
+  private emitReport(event: string, commandId: number, args: TuyaDatapointArgs, frame?: { trxSequenceNumber?: number }) {
+    const report: TuyaReport = {
+      seq: frame?.trxSequenceNumber,
+      commandId,
+      status: args.status,
+      transid: args.transid,
+      dpValues: args.dpValues,
+    };
+    this.emit(event, report);
+  }
+
+  // Incoming time request: surface it as an event, the device layer knows the timezone
+  onTimeRequest(args: { payload: Buffer }) {
+    this.emit('timeRequest', args);
+  }
+
+  // MCU version answer: surface it as an event like time requests
+  onMcuVersionResponse(args: { seq: number; version: number }) {
+    this.emit('mcuVersion', args);
+  }
+
+  // Ask for the MCU version; the answer arrives as an 'mcuVersion' event
+  async requestMcuVersion() {
+    return this.mcuVersionRequest({ seq: this.transactions.nextTransid() }, { disableDefaultResponse: true, waitForResponse: false });
+  }
+
+  // Reply to a time request with a payload built by encodeTuyaTimeSyncPayload
+  async sendTimeSync(payload: Buffer) {
+    return this.timeResponse({
+      payloadSize: payload.length,
+      payload,
+    }, { disableDefaultResponse: true, waitForResponse: false });
+  }
+
+  // Request a full state report; the device answers with regular reporting frames
+  async queryData() {
+    return this.dataQuery({}, { disableDefaultResponse: true, waitForResponse: false });
+  }
+
+  // Per-device transaction sequence and outstanding writes
+  readonly transactions = new TuyaTransactionTracker();
+
+  // Feed datapoints received from the device so outstanding writes can be acknowledged
+  handleDatapointEcho(transid: number | undefined, dpValues: TuyaDpValue[]): number {
+    return this.transactions.handleEcho(transid, dpValues);
+  }
+
+  // Send a datapoint command to the device; resolves when the device echoes it
+  async sendDatapoint(dp: number, datatype: number, data: Buffer, options: TuyaWriteOptions = {}) {
+    const waitForAck = options.waitForAck ?? true;
+    const attempts = 1 + Math.max(0, options.retries ?? 0);
+
+    for (let attempt = 1; ; attempt++) {
+      const transid = this.transactions.nextTransid();
+      const echo = waitForAck
+        ? this.transactions.waitForEcho({ transid, dp, data }, options.timeoutMs ?? DEFAULT_WRITE_TIMEOUT_MS)
+        : undefined;
+      // Keep the promise handled while the frame is being sent
+      echo?.catch(() => {});
+
+      // Use the dynamically created datapoint method from COMMANDS.
+      // The device answers with a Tuya response/report frame, not a ZCL response, so don't wait for one here.
+      await this.datapoint({
+        status: 0,
+        transid,
+        dpValues: [{ dp, datatype, data }],
+      }, { disableDefaultResponse: true, waitForResponse: false });
+
+      if (!echo) return;
+      try {
+        await echo;
+        return;
+      } catch (err) {
+        if (attempt >= attempts) throw err;
+      }
+    }
+  }
+
+  // Encode a typed value and send it as a datapoint command
+  async setDatapoint(dp: number, datatype: number, value: TuyaValue, options: TuyaWriteOptions = {}) {
+    return this.sendDatapoint(dp, datatype, encodeTuyaDpData(datatype, value, options), options);
   }
 
   // Helper to send a boolean value
-  async setDatapointBool(dp: number, value: boolean) {
-    const data = Buffer.alloc(1);
-    data.writeUInt8(value ? 1 : 0, 0);
-    return this.sendDatapoint(dp, TuyaDataTypes.BOOL, data);
+  async setDatapointBool(dp: number, value: boolean, options?: TuyaWriteOptions) {
+    return this.setDatapoint(dp, TuyaDataTypes.BOOL, value, options);
   }
 
   // Helper to send a numeric value (4 bytes)
-  async setDatapointValue(dp: number, value: number) {
-    const data = Buffer.alloc(4);
-    data.writeInt32BE(value, 0);
-    return this.sendDatapoint(dp, TuyaDataTypes.VALUE, data);
+  async setDatapointValue(dp: number, value: number, options?: TuyaWriteOptions) {
+    return this.setDatapoint(dp, TuyaDataTypes.VALUE, value, options);
   }
 
   // Helper to send an enum value
-  async setDatapointEnum(dp: number, value: number) {
-    const data = Buffer.alloc(1);
-    data.writeUInt8(value, 0);
-    return this.sendDatapoint(dp, TuyaDataTypes.ENUM, data);
+  async setDatapointEnum(dp: number, value: number, options?: TuyaWriteOptions) {
+    return this.setDatapoint(dp, TuyaDataTypes.ENUM, value, options);
+  }
+
+  // Helper to send a string value (UTF-8)
+  async setDatapointString(dp: number, value: string, options?: TuyaWriteOptions) {
+    return this.setDatapoint(dp, TuyaDataTypes.STRING, value, options);
+  }
+
+  // Helper to send a bitmap value (1, 2 or 4 bytes)
+  async setDatapointBitmap(dp: number, value: number, bitmapWidth?: TuyaBitmapWidth, options: TuyaWriteOptions = {}) {
+    return this.setDatapoint(dp, TuyaDataTypes.BITMAP, value, {
+      waitForAck: options.waitForAck,
+      timeoutMs: options.timeoutMs,
+      retries: options.retries,
+      bitmapWidth,
+    });
+  }
+
+  // Helper to send raw bytes
+  async setDatapointRaw(dp: number, value: Buffer, options?: TuyaWriteOptions) {
+    return this.setDatapoint(dp, TuyaDataTypes.RAW, value, options);
   }
 
 }
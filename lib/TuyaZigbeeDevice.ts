@@ -0,0 +1,681 @@
+'use strict';
+
+import { CLUSTER } from 'zigbee-clusters';
+
+// Import and register Tuya cluster
+import {
+  DEFAULT_WRITE_TIMEOUT_MS, TUYA_CLUSTER_ID, TUYA_CMD, TuyaWriteOptions,
+} from './TuyaCluster';
+import { formatTuyaMcuVersion, MCU_VERSION_SETTING } from './deviceInfo';
+import HobeianSleepyDevice from './HobeianSleepyDevice';
+import DeviceOutlierFilter from './DeviceOutlierFilter';
+import { OutlierFilterOptions } from './outlierFilter';
+import { expectedReportPeriodMs } from './offlineWatchdog';
+import { TuyaValue } from './tuyaFrame';
+import TuyaReportDeduplicator, { ingestTuyaReport, TuyaReport } from './tuyaIngestion';
+import {
+  acknowledgeDpWrite,
+  countPendingDpWrites,
+  DpWriteQueue,
+  enqueueDpWrite,
+  markDpWritesAttempted,
+  QueuedDpValue,
+  takeDueDpWrites,
+  toDpWriteQueue,
+} from './tuyaWriteQueue';
+import { encodeTuyaTimeSyncPayload, getTimezoneOffsetMinutes } from './tuyaTime';
+import { clampNumber } from './math';
+
+const WRITE_QUEUE_STORE_KEY = 'pendingDpWrites';
+const REPORTED_SETTINGS_STORE_KEY = 'deviceReportedSettings';
+const DRIFT_CORRECTIONS_STORE_KEY = 'settingDriftCorrections';
+const SETTING_MISMATCHES_STORE_KEY = 'settingMismatches';
+// Set while the device warning shows pending writes or a setting mismatch, so other warnings are left alone
+const SETTINGS_WARNING_STORE_KEY = 'settingsWarning';
+
+// Stop re-issuing a drifting setting after this many consecutive corrections
+const MAX_DRIFT_CORRECTIONS = 3;
+
+// Maintenance action that asks the device to re-report every datapoint
+const QUERY_STATE_CAPABILITY = 'button.query_state';
+
+/**
+ * How a reported datapoint maps onto a capability.
+ *
+ * The raw value is decoded according to the reported datatype, then
+ * converted (fromDevice), scaled (divideBy), run through the outlier filter (see lib/outlierFilter)
+ * and clamped (min/max), in that order.
+ */
+export type TuyaDatapointDefinition = {
+  /** Short name used in logs and by device-specific hooks */
+  name: string;
+  capability?: string;
+  divideBy?: number;
+  min?: number;
+  max?: number;
+  fromDevice?: (value: TuyaValue) => TuyaValue;
+  /** Reject implausible spikes; DPs sharing a name share the filter state */
+  outlierFilter?: OutlierFilterOptions;
+};
+
+/**
+ * A writable datapoint.
+ *
+ * When `setting` is set, the value comes from that device setting (falling back to `default`)
+ * and is written whenever the setting changes. Without `setting`, `default` is always written
+ * as part of applying the device settings (e.g. to enforce a unit).
+ */
+export type TuyaSettingDefinition = {
+  dp: number;
+  datatype: number;
+  setting?: string;
+  default: any;
+  toDevice?: (value: any) => TuyaValue;
+  /** Convert an echoed device value back to setting units (inverse of toDevice) */
+  fromDevice?: (value: any) => any;
+};
+
+export type TuyaDeviceDefinition = {
+  datapoints: Record<number, TuyaDatapointDefinition>;
+  settings: TuyaSettingDefinition[];
+  /** Sampling interval settings (seconds) the offline watchdog derives the report period from */
+  reportPeriodSettings?: string[];
+};
+
+// A setting the device keeps reporting differently from Homey, in setting units
+type SettingMismatch = {
+  reported: TuyaValue;
+  expected: TuyaValue;
+};
+
+/**
+ * Base class for Tuya TS0601-style devices that talk over the 0xEF00 cluster.
+ *
+ * Subclasses describe their datapoints declaratively (see TuyaDeviceDefinition)
+ * and can hook into onDatapointValue / onSettingEcho for device-specific behaviour.
+ */
+export default abstract class TuyaZigbeeDevice extends HobeianSleepyDevice {
+
+  protected tuyaCluster: any = null;
+  private dataQueriedSinceStartup = false;
+  // Setting echoes are handled one at a time, each run reads and saves the write queue
+  private settingEchoes: Promise<void> = Promise.resolve();
+  private readonly reportDeduplicator = new TuyaReportDeduplicator();
+  private readonly outlierFilter = new DeviceOutlierFilter(this);
+
+  /**
+   * How long to wait for the device to echo a write. Unconfirmed writes are retried by the write queue.
+   */
+  protected writeOptions: TuyaWriteOptions = {
+    timeoutMs: DEFAULT_WRITE_TIMEOUT_MS,
+  };
+
+  /**
+   * Declarative description of the device's datapoints and writable settings.
+   */
+  protected abstract get tuyaDefinition(): TuyaDeviceDefinition;
+
+  async onNodeInit({ zclNode }: { zclNode: any }) {
+    await super.onNodeInit({ zclNode });
+    const endpoint = this.endpoint1;
+    if (!endpoint) return;
+    const isSleepy = this.isDeviceSleepy();
+
+    // Only send magic packet on first init (pairing), not on app restarts
+    const isFirstInit = typeof (this as any).isFirstInit === 'function' ? (this as any).isFirstInit() : false;
+    let magicPacketInfo: Record<string, unknown> | undefined;
+    if (isFirstInit) {
+      this.log('First init - sending Tuya magic packet');
+      magicPacketInfo = await this.configureMagicPacket(zclNode);
+    }
+
+    // Try to get the Tuya cluster
+    this.tuyaCluster = endpoint.clusters['tuya'] || endpoint.clusters[TUYA_CLUSTER_ID];
+
+    if (this.tuyaCluster) {
+      this.log('Tuya cluster found!');
+      this.setupTuyaListeners();
+    } else {
+      this.log('Tuya cluster not found in named clusters, trying to bind...');
+
+      // Try to bind the cluster manually
+      try {
+        await endpoint.bind('tuya');
+        this.tuyaCluster = endpoint.clusters['tuya'];
+        if (this.tuyaCluster) {
+          this.log('Tuya cluster bound successfully');
+          this.setupTuyaListeners();
+        }
+      } catch (err) {
+        this.log('Could not bind Tuya cluster:', err);
+      }
+    }
+
+    await this.registerQueryStateAction().catch(this.error);
+
+    // Restore the settings warning from the persisted write queue and mismatches
+    await this.updateSettingsWarning().catch(this.error);
+
+    // For sleepy devices, defer commands until device wakes up
+    // For always-on devices, apply settings immediately
+    if (isSleepy) {
+      this.log('Device is sleepy - will apply settings when device wakes up');
+      // Do NOT queue all settings here - only user changes are queued for sleepy devices
+    } else if (this.tuyaCluster) {
+      await this.applyDeviceSettings().catch(this.error);
+      await this.requestDataQuery().catch(this.error);
+    }
+
+    // Right after pairing the device is still awake: pull its full state now
+    if (isFirstInit && isSleepy && this.tuyaCluster) {
+      await this.requestDataQuery().catch(this.error);
+    }
+
+    // Sleepy devices only answer right after pairing; otherwise this is retried on wake
+    if (isFirstInit || !isSleepy) {
+      await this.collectDeviceInfo(magicPacketInfo).catch(this.error);
+    }
+  }
+
+  protected getReportPeriodMs(settings: Record<string, any>): number | undefined {
+    return expectedReportPeriodMs(this.reportPeriodSettings.map((key) => settings[key]));
+  }
+
+  protected get reportPeriodSettings(): string[] {
+    return this.tuyaDefinition.reportPeriodSettings ?? [];
+  }
+
+  /**
+   * Add and wire the "query state" maintenance action (also for devices paired before it existed).
+   */
+  private async registerQueryStateAction(): Promise<void> {
+    if (!this.hasCapability(QUERY_STATE_CAPABILITY)) {
+      await this.addCapability(QUERY_STATE_CAPABILITY);
+    }
+    this.registerCapabilityListener(QUERY_STATE_CAPABILITY, async () => {
+      this.log('Maintenance action: query device state');
+      // A sleeping device would miss the query; send it when the device is heard from next
+      if (this.isDeviceSleepy()) {
+        this.deferUntilAwake('data query', () => this.requestDataQuery());
+        this.log('Data query queued for the next wake-up');
+        return;
+      }
+      await this.requestDataQuery();
+    });
+  }
+
+  /**
+   * Send a Tuya DATA_QUERY so the device re-reports every datapoint.
+   */
+  protected async requestDataQuery(): Promise<void> {
+    if (!this.tuyaCluster) throw new Error('Tuya cluster not available');
+    await this.tuyaCluster.queryData();
+    this.dataQueriedSinceStartup = true;
+    this.log('Sent Tuya data query');
+  }
+
+  /**
+   * Resolve the value to write for a setting definition.
+   */
+  protected settingToDeviceValue(definition: TuyaSettingDefinition, value?: any): TuyaValue {
+    const raw = definition.setting ? (value ?? this.getSetting(definition.setting) ?? definition.default) : definition.default;
+    return definition.toDevice ? definition.toDevice(raw) : raw;
+  }
+
+  private getWriteQueue(): DpWriteQueue {
+    return toDpWriteQueue(this.getStoreValue(WRITE_QUEUE_STORE_KEY));
+  }
+
+  private async saveWriteQueue(queue: DpWriteQueue): Promise<void> {
+    await this.setStoreValue(WRITE_QUEUE_STORE_KEY, queue);
+    await this.updateSettingsWarning();
+  }
+
+  /**
+   * Queue a setting write in the persistent write queue (coalesced per DP).
+   */
+  protected async queueSettingWrite(definition: TuyaSettingDefinition, value?: any): Promise<void> {
+    const deviceValue = this.settingToDeviceValue(definition, value);
+    if (Buffer.isBuffer(deviceValue)) {
+      throw new Error(`DP ${definition.dp}: raw values cannot be queued`);
+    }
+    await this.saveWriteQueue(enqueueDpWrite(this.getWriteQueue(), {
+      dp: definition.dp,
+      datatype: definition.datatype,
+      value: deviceValue as QueuedDpValue,
+    }, Date.now()));
+  }
+
+  /**
+   * Send all queued writes that are due. Entries stay queued until the device echoes them.
+   * Returns the DPs the device confirmed and the ones it did not.
+   */
+  protected async flushPendingWrites(): Promise<{ confirmed: number[]; failed: number[] }> {
+    const confirmed: number[] = [];
+    const failed: number[] = [];
+    if (!this.tuyaCluster) return { confirmed, failed };
+
+    const { queue, due, expired } = takeDueDpWrites(this.getWriteQueue(), Date.now());
+    for (const pending of expired) {
+      this.error(`Giving up on DP ${pending.dp} write (${pending.attempts} attempts, queued ${new Date(pending.queuedAt).toISOString()})`);
+    }
+    if (expired.length > 0) await this.saveWriteQueue(queue);
+    if (due.length === 0) return { confirmed, failed };
+
+    // Send everything while the device is awake and wait for the echoes together.
+    // No retries here: an unconfirmed write stays queued and is retried by the queue.
+    const options: TuyaWriteOptions = {
+      waitForAck: this.writeOptions.waitForAck,
+      timeoutMs: this.writeOptions.timeoutMs,
+      bitmapWidth: this.writeOptions.bitmapWidth,
+      retries: 0,
+    };
+    await Promise.all(due.map(async (pending) => {
+      try {
+        await this.tuyaCluster.setDatapoint(pending.dp, pending.datatype, pending.value, options);
+        confirmed.push(pending.dp);
+      } catch (err) {
+        this.error(`Failed to write DP ${pending.dp}:`, err);
+        failed.push(pending.dp);
+      }
+    }));
+
+    // Re-read the queue: echoes may have acknowledged entries while we were sending.
+    // Failed sends count as attempts too, so a broken DP eventually expires.
+    const attempted = due.map((pending) => pending.dp);
+    await this.saveWriteQueue(markDpWritesAttempted(this.getWriteQueue(), attempted, Date.now()));
+    this.log('Sent pending Tuya DP writes', due.map((pending) => `${pending.dp}=${pending.value}`), { confirmed, failed });
+    return { confirmed, failed };
+  }
+
+  /**
+   * Reflect a setting the device keeps reporting differently, or else the number of
+   * unacknowledged writes, in the device warning. Only clears the warning when it was set here.
+   */
+  protected async updateSettingsWarning(): Promise<void> {
+    const count = countPendingDpWrites(this.getWriteQueue());
+    const mismatches = Object.entries(this.getStoreValue(SETTING_MISMATCHES_STORE_KEY) || {}) as Array<[string, SettingMismatch]>;
+    let warning: string | undefined;
+    if (mismatches.length > 0) {
+      const [setting, { reported, expected }] = mismatches[0];
+      warning = this.homey.__('warnings.setting_mismatch', { setting, reported, expected });
+    } else if (count > 0) {
+      const key = this.isDeviceSleepy() ? 'warnings.settings_pending' : 'warnings.settings_unconfirmed';
+      warning = this.homey.__(key, { count });
+    }
+
+    if (warning) {
+      await this.setWarning(warning);
+      await this.setStoreValue(SETTINGS_WARNING_STORE_KEY, true);
+    } else if (this.getStoreValue(SETTINGS_WARNING_STORE_KEY)) {
+      await this.unsetWarning();
+      await this.setStoreValue(SETTINGS_WARNING_STORE_KEY, false);
+    }
+  }
+
+  protected async applyDeviceSettings(): Promise<void> {
+    if (!this.tuyaCluster) return;
+
+    // Queue everything; the queue keeps retrying until the device echoes each DP.
+    const applied: Record<string, TuyaValue> = {};
+    for (const definition of this.tuyaDefinition.settings) {
+      applied[definition.setting ?? `dp${definition.dp}`] = this.settingToDeviceValue(definition);
+      await this.queueSettingWrite(definition);
+    }
+    await this.flushPendingWrites();
+
+    this.log('Applied device settings via Tuya DPs', applied);
+  }
+
+  /**
+   * Set up listeners for Tuya cluster events
+   */
+  private setupTuyaListeners() {
+    if (!this.tuyaCluster) return;
+    this.tuyaCluster.transactions.useTimers(this.homey);
+
+    // Datapoint commands; the cluster decodes every DP in the frame
+    this.tuyaCluster.on('reporting', (report: TuyaReport) => this.onTuyaReport(report, 'reporting'));
+    this.tuyaCluster.on('response', (report: TuyaReport) => this.onTuyaReport(report, 'response'));
+    this.tuyaCluster.on('datapoint', (report: TuyaReport) => this.onTuyaReport(report, 'datapoint'));
+
+    this.tuyaCluster.on('timeRequest', () => {
+      this.respondToTimeRequest().catch(this.error);
+      this.onDeviceAwake().catch(this.error);
+    });
+
+    this.tuyaCluster.on('mcuVersion', ({ version }: { version: number }) => {
+      const mcuVersion = formatTuyaMcuVersion(version);
+      this.log('Tuya MCU version:', mcuVersion);
+      this.setSettings({ [MCU_VERSION_SETTING]: mcuVersion }).catch(this.error);
+    });
+  }
+
+  /**
+   * Persist Basic cluster info and request the MCU version, as far as they are not known yet.
+   * Attributes already read (e.g. by the magic packet) are not read again.
+   */
+  protected async collectDeviceInfo(known: Record<string, unknown> = {}): Promise<void> {
+    await super.collectDeviceInfo(known);
+    if (this.tuyaCluster && !this.getSetting(MCU_VERSION_SETTING)) {
+      await this.tuyaCluster.requestMcuVersion();
+    }
+  }
+
+  protected isDeviceInfoMissing(): boolean {
+    return super.isDeviceInfoMissing() || (!!this.tuyaCluster && !this.getSetting(MCU_VERSION_SETTING));
+  }
+
+  /**
+   * Answer a Tuya time request with UTC and local time (Homey's timezone).
+   */
+  protected async respondToTimeRequest(): Promise<void> {
+    const now = new Date();
+    const timeZone = this.homey.clock.getTimezone();
+    const timezoneOffsetMinutes = getTimezoneOffsetMinutes(timeZone, now);
+    const payload = encodeTuyaTimeSyncPayload({ nowMs: now.getTime(), timezoneOffsetMinutes });
+
+    await this.tuyaCluster.sendTimeSync(payload);
+    this.log(`Answered Tuya time request (${timeZone}, UTC${timezoneOffsetMinutes >= 0 ? '+' : ''}${timezoneOffsetMinutes / 60}h)`);
+  }
+
+  /**
+   * Datapoints received: ingest them and mark the device as awake.
+   */
+  private onTuyaReport(report: TuyaReport, source: string) {
+    this.ingestTuyaReport(report, source);
+    this.onDeviceAwake().catch(this.error);
+  }
+
+  /**
+   * Single entry point for incoming datapoints:
+   * drops duplicates, acknowledges echoed writes and processes every new datapoint once.
+   */
+  private ingestTuyaReport(report: TuyaReport, source: string) {
+    if (report.dpValues.length === 0) return;
+
+    const {
+      fresh, datapoints, invalid, duplicates,
+    } = ingestTuyaReport(this.reportDeduplicator, report);
+    if (duplicates > 0) {
+      const { duplicateDatapoints } = this.reportDeduplicator.counters;
+      this.log(`Dropped ${duplicates} duplicate DP(s) from ${source} (transid=${report.transid}), ${duplicateDatapoints} dropped so far`);
+    }
+    if (fresh.length === 0) return;
+
+    // Acknowledge outstanding writes echoed by this report
+    if (report.commandId === TUYA_CMD.REPORTING || report.commandId === TUYA_CMD.RESPONSE) {
+      this.tuyaCluster?.handleDatapointEcho(report.transid, fresh);
+    }
+
+    this.log(`Tuya ${source}: cmd=${report.commandId} seq=${report.seq} transid=${report.transid} dpCount=${fresh.length}`);
+    for (const { dpValue, error } of invalid) {
+      this.error(`Skipping DP ${dpValue.dp} (type: ${dpValue.datatype}, data: ${dpValue.data.toString('hex')}):`, error.message);
+    }
+    for (const datapoint of datapoints) {
+      try {
+        this.processDataPoint(datapoint.dp, datapoint.datatype, datapoint.value);
+      } catch (err) {
+        this.error(`Error processing DP ${datapoint.dp}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Process a Tuya datapoint value using the device definition
+   */
+  protected processDataPoint(dp: number, datatype: number, rawValue: TuyaValue) {
+    const definition = this.tuyaDefinition;
+
+    const settingDefinition = definition.settings.find((s) => s.dp === dp);
+    if (settingDefinition) {
+      this.onSettingEcho(settingDefinition, rawValue);
+      return;
+    }
+
+    const mapping = definition.datapoints[dp];
+    if (!mapping) {
+      this.log(`Unknown DP ${dp} (type: ${datatype})`);
+      return;
+    }
+
+    let value = mapping.fromDevice ? mapping.fromDevice(rawValue) : rawValue;
+    if (typeof value === 'number') {
+      if (mapping.divideBy) value /= mapping.divideBy;
+      // Filter before clamping, so the filter's range check sees out-of-range readings
+      if (mapping.outlierFilter && !this.outlierFilter.accept(mapping.name, value, mapping.outlierFilter)) return;
+      if (typeof mapping.min === 'number' || typeof mapping.max === 'number') {
+        value = clampNumber(value, mapping.min ?? -Infinity, mapping.max ?? Infinity);
+      }
+    }
+
+    this.log(`Processing DP ${dp} = ${value} (${mapping.name})`);
+    this.onDatapointValue(dp, mapping, value);
+  }
+
+  /**
+   * Called for every mapped datapoint with its converted value.
+   * The default implementation writes the value to the mapped capability.
+   */
+  protected onDatapointValue(dp: number, mapping: TuyaDatapointDefinition, value: TuyaValue) {
+    this.setMappedCapability(mapping, value);
+  }
+
+  protected setMappedCapability(mapping: TuyaDatapointDefinition, value: TuyaValue) {
+    if (!mapping.capability || Buffer.isBuffer(value)) return;
+    // The battery DP is one of several battery sources
+    if (mapping.capability === 'measure_battery' && typeof value === 'number') {
+      this.battery.report('tuya', value);
+      return;
+    }
+    this.log(`Setting ${mapping.capability} to ${value}`);
+    if (this.hasCapability(mapping.capability)) {
+      this.setCapabilityValue(mapping.capability, value).catch(this.error);
+    }
+  }
+
+  /**
+   * Called when the device echoes a writable datapoint back.
+   */
+  protected onSettingEcho(definition: TuyaSettingDefinition, value: TuyaValue) {
+    this.settingEchoes = this.settingEchoes
+      .then(() => this.handleSettingEcho(definition, value))
+      .catch(this.error);
+  }
+
+  /**
+   * Record the device-reported value and compare it with what Homey expects.
+   *
+   * - Echo matches a queued write => the write is acknowledged.
+   * - No write pending and the value differs => the device drifted (factory reset,
+   *   half-applied write, ...): flag it and re-issue the write.
+   */
+  private async handleSettingEcho(definition: TuyaSettingDefinition, value: TuyaValue): Promise<void> {
+    const key = definition.setting ?? `dp${definition.dp}`;
+    const reported = definition.fromDevice ? definition.fromDevice(value) : value;
+    this.log(`Setting DP ${definition.dp} (${key}) reported by device: ${reported}`);
+
+    const reportedSettings = this.getStoreValue(REPORTED_SETTINGS_STORE_KEY) || {};
+    reportedSettings[key] = reported;
+    await this.setStoreValue(REPORTED_SETTINGS_STORE_KEY, reportedSettings);
+
+    const queue = this.getWriteQueue();
+    const next = acknowledgeDpWrite(queue, definition.dp, value);
+    if (next !== queue) {
+      this.log(`Setting DP ${definition.dp} confirmed: ${value}`);
+      await this.setDriftCorrections(definition.dp, 0);
+      await this.setSettingMismatch(key, undefined);
+      // Re-read the queue: a flush may have updated other entries meanwhile
+      await this.saveWriteQueue(acknowledgeDpWrite(this.getWriteQueue(), definition.dp, value));
+      return;
+    }
+
+    // A different value while a write is pending just means the write has not landed yet
+    if (queue[definition.dp]) return;
+
+    const expected = this.settingToDeviceValue(definition);
+    if (expected === value) {
+      await this.setDriftCorrections(definition.dp, 0);
+      await this.setSettingMismatch(key, undefined);
+      return;
+    }
+
+    const corrections = (this.getStoreValue(DRIFT_CORRECTIONS_STORE_KEY) || {})[definition.dp] ?? 0;
+    if (corrections >= MAX_DRIFT_CORRECTIONS) {
+      this.error(`Setting ${key} mismatch persists (device ${value}, expected ${expected}) - giving up after ${corrections} corrections`);
+      const expectedSetting = definition.fromDevice ? definition.fromDevice(expected) : expected;
+      await this.setSettingMismatch(key, { reported, expected: expectedSetting });
+      return;
+    }
+
+    this.error(`Setting ${key} mismatch: device reports ${value}, expected ${expected} - re-issuing write`);
+    await this.setDriftCorrections(definition.dp, corrections + 1);
+    await this.queueSettingWrite(definition);
+    await this.flushPendingWrites();
+  }
+
+  private async setDriftCorrections(dp: number, count: number): Promise<void> {
+    const corrections = this.getStoreValue(DRIFT_CORRECTIONS_STORE_KEY) || {};
+    if ((corrections[dp] ?? 0) === count) return;
+    corrections[dp] = count;
+    await this.setStoreValue(DRIFT_CORRECTIONS_STORE_KEY, corrections);
+  }
+
+  /**
+   * Remember (or forget) a setting the device keeps reporting differently, and show it in the device warning.
+   */
+  private async setSettingMismatch(key: string, mismatch: SettingMismatch | undefined): Promise<void> {
+    const mismatches = this.getStoreValue(SETTING_MISMATCHES_STORE_KEY) || {};
+    if (!mismatch && !(key in mismatches)) return;
+    if (mismatch) {
+      mismatches[key] = mismatch;
+    } else {
+      delete mismatches[key];
+    }
+    await this.setStoreValue(SETTING_MISMATCHES_STORE_KEY, mismatches);
+    await this.updateSettingsWarning();
+  }
+
+  /**
+   * Device-reported value of a setting, in setting units (undefined until the device echoed it).
+   */
+  protected getDeviceReportedSetting(key: string): any {
+    return (this.getStoreValue(REPORTED_SETTINGS_STORE_KEY) || {})[key];
+  }
+
+  /**
+   * Handle setting changes: write every changed setting that maps to a datapoint
+   */
+  async onSettings({ oldSettings, newSettings, changedKeys }: {
+    oldSettings: Record<string, any>;
+    newSettings: Record<string, any>;
+    changedKeys: string[];
+  }): Promise<string | void> {
+    this.log('Settings changed:', changedKeys);
+    await super.onSettings({ oldSettings, newSettings, changedKeys });
+
+    // Queue every changed setting that maps to a datapoint; the queue survives restarts
+    const queued: TuyaSettingDefinition[] = [];
+    for (const key of changedKeys) {
+      const definition = this.tuyaDefinition.settings.find((s) => s.setting === key);
+      if (!definition) continue;
+      try {
+        await this.queueSettingWrite(definition, newSettings[key]);
+        queued.push(definition);
+      } catch (err) {
+        this.error('Failed to queue setting write:', err);
+      }
+    }
+    if (queued.length === 0) return undefined;
+
+    // For sleepy devices, queued writes are flushed when the device wakes up
+    if (this.isDeviceSleepy()) {
+      this.log('Device is sleepy - queued settings for next wake-up');
+      return this.homey.__('settings.queued');
+    }
+
+    // Device is always-on, apply settings immediately and report what the device confirmed
+    const { confirmed, failed } = await this.flushPendingWrites();
+    const unconfirmed = queued.filter((definition) => !confirmed.includes(definition.dp));
+    if (unconfirmed.length === 0) return this.homey.__('settings.confirmed');
+    if (unconfirmed.some((definition) => failed.includes(definition.dp))) {
+      return this.homey.__('settings.not_confirmed', {
+        settings: unconfirmed.map((definition) => definition.setting).join(', '),
+      });
+    }
+    // Nothing was sent (no Tuya cluster, or the DP is waiting for its retry interval)
+    return this.homey.__('settings.pending');
+  }
+
+  /**
+   * Change settings from code (e.g. a flow action) through the same write path as the settings page.
+   * Like Homey, the settings are only saved when onSettings succeeds.
+   */
+  async changeSettings(settings: Record<string, any>): Promise<string | void> {
+    const oldSettings = this.getSettings();
+    const newSettings: Record<string, any> = {};
+    for (const [key, value] of Object.entries(oldSettings)) newSettings[key] = value;
+
+    const changedKeys: string[] = [];
+    for (const [key, value] of Object.entries(settings)) {
+      if (oldSettings[key] !== value) changedKeys.push(key);
+      newSettings[key] = value;
+    }
+    if (changedKeys.length === 0) return undefined;
+
+    const message = await this.onSettings({ oldSettings, newSettings, changedKeys });
+    await this.setSettings(settings);
+    return message;
+  }
+
+  /**
+   * Clean up on device removal
+   */
+  async onDeleted() {
+    await super.onDeleted();
+    this.tuyaCluster?.transactions.rejectAll(new Error('Device deleted'));
+  }
+
+  /**
+   * Returns the attributes read, so they can be shown as device info.
+   */
+  private async configureMagicPacket(zclNode: any): Promise<Record<string, unknown> | undefined> {
+    const endpoints = Object.values(zclNode.endpoints || {}) as any[];
+    const candidates = endpoints.filter((e) => e?.clusters?.[CLUSTER.BASIC.NAME]);
+    for (const endpoint of candidates) {
+      try {
+        const attributes = await endpoint.clusters[CLUSTER.BASIC.NAME].readAttributes([
+          'manufacturerName',
+          'zclVersion',
+          'appVersion',
+          'modelId',
+          'powerSource',
+          0xfffe,
+        ]);
+        this.log('Sent Tuya configureMagicPacket readAttributes');
+        return attributes;
+      } catch (err) {
+        this.log('Tuya configureMagicPacket readAttributes failed on endpoint, trying next:', err);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Wake-up work: send the settings changed while the device was sleeping
+   * and pull the full state once after an app restart.
+   */
+  protected async onWake(): Promise<void> {
+    // Only send writes that are still pending (user changes made while the device was sleeping)
+    if (countPendingDpWrites(this.getWriteQueue()) > 0) {
+      this.log('Applying pending user settings...');
+      await this.flushPendingWrites().catch(this.error);
+    }
+
+    // Capabilities may be stale after an app restart: pull the full state once
+    if (!this.dataQueriedSinceStartup && this.tuyaCluster) {
+      await this.requestDataQuery().catch(this.error);
+    }
+  }
+
+}
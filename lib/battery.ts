@@ -0,0 +1,168 @@
+'use strict';
+
+import { clampPercent, fitLine } from './math';
+
+/**
+ * Battery level, low-battery alarm and battery life estimation.
+ *
+ * A device can report its level from several sources: the ZCL Power Configuration cluster
+ * (batteryPercentageRemaining, or batteryVoltage as a fallback) and, for Tuya devices, a battery
+ * datapoint. The freshest reading of the most trusted source wins.
+ *
+ * All functions are pure; the state is a plain object that can live in the device store.
+ */
+
+export type BatterySource = 'tuya' | 'percentage' | 'voltage';
+
+export type BatteryReading = {
+  percent: number;
+  /** Time of the reading (ms) */
+  at: number;
+};
+
+export type BatteryState = {
+  /** Latest reading per source */
+  sources: Partial<Record<BatterySource, BatteryReading>>;
+  /** Arbitrated level over time since the last battery swap, oldest first */
+  history: BatteryReading[];
+  /** Low-battery alarm from the threshold (before device-reported flags) */
+  alarm: boolean;
+};
+
+export type VoltageRange = {
+  /** Voltage (V) considered empty */
+  min: number;
+  /** Voltage (V) of a fresh battery */
+  max: number;
+};
+
+/** Usable voltage range per battery pack, see the drivers' energy.batteries */
+export const BATTERY_VOLTAGE_RANGES = {
+  AAA_2: { min: 2.0, max: 3.0 },
+  CR2032: { min: 2.2, max: 3.0 },
+} as const;
+
+export const BATTERY_DEFAULTS = {
+  /** Most trusted source first; the Tuya MCU measures its own battery */
+  PRIORITY: ['tuya', 'percentage', 'voltage'] as BatterySource[],
+  /** A source is used only while its reading is younger than this */
+  STALE_MS: 3 * 24 * 3600000,
+  LOW_THRESHOLD_PERCENT: 20,
+  /** The alarm clears once the level is this far above the threshold */
+  ALARM_HYSTERESIS_PERCENT: 5,
+  /** History keeps at most one sample per interval */
+  HISTORY_INTERVAL_MS: 6 * 3600000,
+  HISTORY_WINDOW_DAYS: 365,
+  /** A rise of at least this much means the battery was replaced */
+  SWAP_JUMP_PERCENT: 20,
+  MIN_ESTIMATE_SAMPLES: 3,
+  MIN_ESTIMATE_SPAN_DAYS: 7,
+} as const;
+
+export function createBatteryState(): BatteryState {
+  return { sources: {}, history: [], alarm: false };
+}
+
+/**
+ * ZCL batteryPercentageRemaining is in half percent; 0xFF means unknown.
+ */
+export function percentFromBatteryPercentageRemaining(raw: unknown): number | undefined {
+  if (typeof raw !== 'number' || Number.isNaN(raw) || raw === 0xff) return undefined;
+  return clampPercent(Math.round(raw / 2));
+}
+
+/**
+ * ZCL batteryVoltage is in 100 mV; 0 and 0xFF mean unknown. Mapped linearly onto the range.
+ */
+export function percentFromBatteryVoltage(raw: unknown, range: VoltageRange): number | undefined {
+  if (typeof raw !== 'number' || Number.isNaN(raw) || raw === 0 || raw === 0xff) return undefined;
+  const volts = raw / 10;
+  return clampPercent(Math.round(((volts - range.min) / (range.max - range.min)) * 100));
+}
+
+/**
+ * Store a reading from one source.
+ */
+export function recordBatteryReading(state: BatteryState, source: BatterySource, reading: BatteryReading): BatteryState {
+  const sources: BatteryState['sources'] = {};
+  for (const [key, value] of Object.entries(state.sources)) sources[key as BatterySource] = value;
+  sources[source] = reading;
+  return { sources, history: state.history, alarm: state.alarm };
+}
+
+/**
+ * Pick the level to show: the first source in priority order with a fresh reading,
+ * otherwise the most recent reading of any source.
+ */
+export function arbitrateBattery(
+  state: BatteryState,
+  now: number,
+  options: { priority?: BatterySource[]; staleMs?: number } = {},
+): { source: BatterySource; percent: number } | undefined {
+  const priority = options.priority ?? BATTERY_DEFAULTS.PRIORITY;
+  const staleMs = options.staleMs ?? BATTERY_DEFAULTS.STALE_MS;
+
+  let latest: { source: BatterySource; reading: BatteryReading } | undefined;
+  for (const source of priority) {
+    const reading = state.sources[source];
+    if (!reading) continue;
+    if (now - reading.at <= staleMs) return { source, percent: reading.percent };
+    if (!latest || reading.at > latest.reading.at) latest = { source, reading };
+  }
+  return latest && { source: latest.source, percent: latest.reading.percent };
+}
+
+/**
+ * Low-battery alarm with hysteresis: on below the threshold, off from threshold + hysteresis.
+ */
+export function updateBatteryAlarm(
+  alarm: boolean,
+  percent: number,
+  thresholdPercent: number,
+  hysteresisPercent: number = BATTERY_DEFAULTS.ALARM_HYSTERESIS_PERCENT,
+): boolean {
+  if (percent < thresholdPercent) return true;
+  if (percent >= thresholdPercent + hysteresisPercent) return false;
+  return alarm;
+}
+
+/**
+ * Add the arbitrated level to the discharge history (at most one sample per interval).
+ * A sharp rise starts a new history: the battery was replaced.
+ */
+export function appendBatteryHistory(
+  history: BatteryReading[],
+  reading: BatteryReading,
+  options: { intervalMs?: number; windowDays?: number; swapJumpPercent?: number } = {},
+): BatteryReading[] {
+  const last = history[history.length - 1];
+  if (last && reading.percent - last.percent >= (options.swapJumpPercent ?? BATTERY_DEFAULTS.SWAP_JUMP_PERCENT)) {
+    return [reading];
+  }
+  if (last && reading.at - last.at < (options.intervalMs ?? BATTERY_DEFAULTS.HISTORY_INTERVAL_MS)) return history;
+
+  const since = reading.at - (options.windowDays ?? BATTERY_DEFAULTS.HISTORY_WINDOW_DAYS) * 24 * 3600000;
+  return history.filter((r) => r.at >= since).concat([reading]);
+}
+
+/**
+ * Estimate the days until the battery is empty from the discharge trend.
+ * Undefined until the history covers enough time, or while the level is not dropping.
+ */
+export function estimateBatteryDaysRemaining(
+  history: BatteryReading[],
+  options: { minSamples?: number; minSpanDays?: number } = {},
+): number | undefined {
+  if (history.length < (options.minSamples ?? BATTERY_DEFAULTS.MIN_ESTIMATE_SAMPLES)) return undefined;
+
+  const first = history[0];
+  const latest = history[history.length - 1];
+  const days = (r: BatteryReading) => (r.at - first.at) / (24 * 3600000);
+  if (days(latest) < (options.minSpanDays ?? BATTERY_DEFAULTS.MIN_ESTIMATE_SPAN_DAYS)) return undefined;
+
+  const fit = fitLine(history.map((r) => ({ x: days(r), y: r.percent })));
+  if (!fit || fit.slope >= 0) return undefined;
+
+  const fittedNow = fit.intercept + fit.slope * days(latest);
+  return Math.max(0, fittedNow / -fit.slope);
+}
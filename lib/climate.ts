@@ -0,0 +1,88 @@
+'use strict';
+
+/**
+ * Climate metrics derived from air temperature (°C) and relative humidity (%).
+ *
+ * Saturation vapour pressure uses the Magnus formula with the Sonntag (1990) constants,
+ * accurate to about 0.1% between -45°C and 60°C.
+ */
+
+const MAGNUS_A = 17.62;
+const MAGNUS_B = 243.12; // °C
+const MAGNUS_E0_KPA = 0.6112;
+
+// Water vapour: M / R in g·K/J, times 1000 Pa per kPa
+const WATER_VAPOUR_G_K_PER_KPA_M3 = 2166.74;
+
+export type ClimateMetrics = {
+  dewPointC: number;
+  absoluteHumidityGm3: number;
+  vpdKpa: number;
+};
+
+export const VPD_ALARM_DEFAULTS = {
+  MIN_KPA: 0.4,
+  MAX_KPA: 1.6,
+  /** The alarm clears once VPD is this far back inside the bounds */
+  HYSTERESIS_KPA: 0.05,
+} as const;
+
+export function saturationVapourPressureKpa(temperatureC: number): number {
+  return MAGNUS_E0_KPA * Math.exp((MAGNUS_A * temperatureC) / (MAGNUS_B + temperatureC));
+}
+
+export function vapourPressureKpa(temperatureC: number, relativeHumidity: number): number {
+  return saturationVapourPressureKpa(temperatureC) * (relativeHumidity / 100);
+}
+
+/**
+ * Temperature at which the air would be saturated. Undefined at 0% RH.
+ */
+export function dewPointC(temperatureC: number, relativeHumidity: number): number | undefined {
+  if (!(relativeHumidity > 0)) return undefined;
+  const gamma = Math.log(relativeHumidity / 100) + (MAGNUS_A * temperatureC) / (MAGNUS_B + temperatureC);
+  return (MAGNUS_B * gamma) / (MAGNUS_A - gamma);
+}
+
+/**
+ * Grams of water vapour per cubic metre of air.
+ */
+export function absoluteHumidityGm3(temperatureC: number, relativeHumidity: number): number {
+  return (WATER_VAPOUR_G_K_PER_KPA_M3 * vapourPressureKpa(temperatureC, relativeHumidity)) / (273.15 + temperatureC);
+}
+
+/**
+ * Vapour pressure deficit: how much more water the air could hold, in kPa.
+ */
+export function vapourPressureDeficitKpa(temperatureC: number, relativeHumidity: number): number {
+  return saturationVapourPressureKpa(temperatureC) * (1 - relativeHumidity / 100);
+}
+
+/**
+ * All derived metrics, rounded for display. Undefined when an input is missing or out of range.
+ */
+export function computeClimateMetrics(temperatureC: unknown, relativeHumidity: unknown): ClimateMetrics | undefined {
+  if (typeof temperatureC !== 'number' || typeof relativeHumidity !== 'number') return undefined;
+  if (Number.isNaN(temperatureC) || !(relativeHumidity > 0) || relativeHumidity > 100) return undefined;
+
+  const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+  return {
+    dewPointC: round(dewPointC(temperatureC, relativeHumidity) as number, 1),
+    absoluteHumidityGm3: round(absoluteHumidityGm3(temperatureC, relativeHumidity), 1),
+    vpdKpa: round(vapourPressureDeficitKpa(temperatureC, relativeHumidity), 2),
+  };
+}
+
+/**
+ * VPD alarm: on outside [min, max], off once back inside by the hysteresis margin.
+ */
+export function updateVpdAlarm(
+  alarm: boolean,
+  vpdKpa: number,
+  bounds: { minKpa: number; maxKpa: number; hysteresisKpa?: number },
+): boolean {
+  if (vpdKpa < bounds.minKpa || vpdKpa > bounds.maxKpa) return true;
+  const margin = bounds.hysteresisKpa ?? VPD_ALARM_DEFAULTS.HYSTERESIS_KPA;
+  if (vpdKpa >= bounds.minKpa + margin && vpdKpa <= bounds.maxKpa - margin) return false;
+  return alarm;
+}
@@ -0,0 +1,59 @@
+'use strict';
+
+/**
+ * Work for a sleeping device; resolving to false keeps it queued for the next wake.
+ */
+export type DeferredWork = () => Promise<boolean | void>;
+
+/**
+ * Named work that waits until a sleepy device is heard from. Queuing work under the same name
+ * replaces it. Not persisted: after a restart, devices re-queue from their own stored state.
+ */
+export default class DeferredWorkQueue {
+
+  private readonly work = new Map<string, DeferredWork>();
+  private running?: Promise<void>;
+  private readonly log: (...args: any[]) => void;
+
+  constructor(log: (...args: any[]) => void = () => {}) {
+    this.log = log;
+  }
+
+  get size(): number {
+    return this.work.size;
+  }
+
+  has(name: string): boolean {
+    return this.work.has(name);
+  }
+
+  defer(name: string, work: DeferredWork) {
+    this.work.set(name, work);
+  }
+
+  /**
+   * Run the queued work (one run at a time). Work that fails or resolves to false stays queued,
+   * unless it was replaced while running.
+   */
+  async run(): Promise<void> {
+    if (!this.running) {
+      this.running = (async () => {
+        try {
+          for (const [name, work] of Array.from(this.work)) {
+            this.work.delete(name);
+            this.log(`Running deferred ${name}`);
+            const done = await work().catch((err) => {
+              this.log(`Deferred ${name} failed:`, err);
+              return false;
+            });
+            if (done === false && !this.work.has(name)) this.work.set(name, work);
+          }
+        } finally {
+          this.running = undefined;
+        }
+      })();
+    }
+    return this.running;
+  }
+
+}
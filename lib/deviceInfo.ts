@@ -0,0 +1,81 @@
+'use strict';
+
+import { CLUSTER } from 'zigbee-clusters';
+
+/**
+ * Device information shown as read-only labels in the device settings,
+ * so bug reports can name the exact firmware variant.
+ */
+
+/** Basic cluster attributes we persist, in the order they are shown */
+export const BASIC_INFO_ATTRIBUTES = [
+  'manufacturerName',
+  'modelId',
+  'appVersion',
+  'swBuildId',
+  'powerSource',
+] as const;
+
+export type BasicInfoAttribute = typeof BASIC_INFO_ATTRIBUTES[number];
+
+/** Label setting id per Basic cluster attribute */
+export const DEVICE_INFO_SETTINGS: Record<BasicInfoAttribute, string> = {
+  manufacturerName: 'info_manufacturer_name',
+  modelId: 'info_model_id',
+  appVersion: 'info_app_version',
+  swBuildId: 'info_sw_build_id',
+  powerSource: 'info_power_source',
+};
+
+/** Label setting id for the Tuya MCU version (Tuya 0xEF00 devices only) */
+export const MCU_VERSION_SETTING = 'info_mcu_version';
+
+/**
+ * Tuya MCU version byte: bits 7-6 major, bits 5-4 minor, bits 3-0 patch.
+ */
+export function formatTuyaMcuVersion(version: number): string {
+  return `${(version >> 6) & 0x03}.${(version >> 4) & 0x03}.${version & 0x0f}`;
+}
+
+/**
+ * Convert Basic cluster attributes into label setting values.
+ * Attributes that were not reported are left out so earlier values are kept.
+ */
+export function toDeviceInfoSettings(attributes: Record<string, unknown>): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (const attribute of BASIC_INFO_ATTRIBUTES) {
+    const value = attributes[attribute];
+    if (value === undefined || value === null || value === '') continue;
+    settings[DEVICE_INFO_SETTINGS[attribute]] = String(value).trim();
+  }
+  return settings;
+}
+
+/**
+ * Basic cluster attributes still missing from the device settings.
+ */
+export function missingBasicInfoAttributes(getSetting: (key: string) => unknown): BasicInfoAttribute[] {
+  return BASIC_INFO_ATTRIBUTES.filter((attribute) => !getSetting(DEVICE_INFO_SETTINGS[attribute]));
+}
+
+/**
+ * Read Basic cluster attributes from the first endpoint that answers.
+ * Throws when no endpoint answered (e.g. a sleeping device).
+ */
+export async function readBasicInfo(
+  zclNode: any,
+  attributes: readonly string[] = BASIC_INFO_ATTRIBUTES,
+): Promise<Record<string, unknown>> {
+  const endpoints = Object.values(zclNode?.endpoints || {}) as any[];
+  const candidates = endpoints.filter((e) => e?.clusters?.[CLUSTER.BASIC.NAME]);
+
+  let lastError: unknown = new Error('Basic cluster not available');
+  for (const endpoint of candidates) {
+    try {
+      return await endpoint.clusters[CLUSTER.BASIC.NAME].readAttributes(attributes);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
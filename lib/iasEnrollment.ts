@@ -0,0 +1,94 @@
+'use strict';
+
+/**
+ * IAS Zone enrollment.
+ *
+ * An IAS zone device only sends zoneStatusChangeNotification once it is enrolled with a CIE
+ * (Homey): its iasCIEAddress attribute must point at the coordinator and the CIE must have sent a
+ * zoneEnrollResponse with a zone ID. Devices either ask for it with zoneEnrollRequest
+ * (enroll-request mode) or accept an unsolicited response after the CIE address is written
+ * (auto-enroll-response mode); both are handled.
+ *
+ * Homey does not expose its own IEEE address to apps, so the CIE address is learned from
+ * an enrolled device that was just heard sending a zone status notification or enroll request
+ * (which go to its CIE address, so that address is Homey's) and remembered app-wide. A learned
+ * address that does not get a device enrolled is forgotten.
+ */
+
+/** A device counts as heard by Homey for this long after a notification or enroll request */
+export const IAS_HEARD_WINDOW_MS = 60000;
+
+/** Store key of the zone ID assigned to the device */
+export const IAS_ZONE_ID_STORE_KEY = 'iasZoneId';
+
+/** App setting with the learned CIE (Homey) IEEE address */
+export const IAS_CIE_ADDRESS_SETTING = 'iasCieAddress';
+
+/** Zone IDs are 0-254; 255 means not enrolled */
+export const INVALID_ZONE_ID = 0xff;
+
+export type IASZoneAttributes = {
+  zoneState?: string;
+  iasCIEAddress?: string;
+  zoneId?: number;
+};
+
+export type EnrollmentPlan = {
+  /** Newly learned CIE address to remember */
+  learnCieAddress?: string;
+  /** CIE address to write to the device */
+  writeCieAddress?: string;
+  /** Send a zoneEnrollResponse */
+  enroll: boolean;
+};
+
+/**
+ * Lowercase "aa:bb:..:hh" form; undefined for a missing or unset (all 0 or all F) address.
+ */
+export function normalizeIeeeAddress(address: unknown): string | undefined {
+  if (typeof address !== 'string') return undefined;
+  const hex = address.toLowerCase().replace(/^0x|[^0-9a-f]/g, '');
+  if (hex.length !== 16 || /^0+$/.test(hex) || /^f+$/.test(hex)) return undefined;
+  return hex.match(/.{2}/g)!.join(':');
+}
+
+/**
+ * Lowest zone ID not used by another device.
+ */
+export function allocateZoneId(used: Array<number | undefined>): number {
+  const taken = new Set(used);
+  for (let zoneId = 0; zoneId < INVALID_ZONE_ID; zoneId++) {
+    if (!taken.has(zoneId)) return zoneId;
+  }
+  return 0;
+}
+
+/**
+ * Decide what to do from the device's IAS Zone attributes and the known CIE address.
+ * An enrolled device pointing at the known CIE is left alone. The CIE address is only learned
+ * from a device whose notifications or enroll requests just reached Homey.
+ */
+export function planEnrollment(attributes: IASZoneAttributes, knownCieAddress: string | undefined, heardByHomey: boolean): EnrollmentPlan {
+  const enrolled = attributes.zoneState === 'enrolled';
+  const deviceCieAddress = normalizeIeeeAddress(attributes.iasCIEAddress);
+  const known = normalizeIeeeAddress(knownCieAddress);
+
+  const learnCieAddress = !known && enrolled && heardByHomey ? deviceCieAddress : undefined;
+  const cieAddress = known ?? learnCieAddress;
+  const writeCieAddress = cieAddress && cieAddress !== deviceCieAddress ? cieAddress : undefined;
+
+  return {
+    learnCieAddress,
+    writeCieAddress,
+    enroll: !enrolled || writeCieAddress !== undefined,
+  };
+}
+
+/**
+ * Whether the known CIE address should be forgotten: it was written to the device,
+ * but the device is still not enrolled after the enroll response.
+ */
+export function shouldForgetCieAddress(plan: EnrollmentPlan, knownCieAddress: string | undefined, zoneStateAfter: string | undefined): boolean {
+  const known = normalizeIeeeAddress(knownCieAddress);
+  return known !== undefined && plan.writeCieAddress === known && zoneStateAfter !== 'enrolled';
+}
@@ -0,0 +1,102 @@
+'use strict';
+
+/**
+ * IAS Zone status decoding, shared by IAS zone sensors (leak, contact, motion, ...).
+ *
+ * The zoneStatus bitmap arrives as a zigbee-clusters Bitmap (one boolean property per bit)
+ * in zoneStatusChangeNotification and attribute reads, or as a plain number.
+ */
+
+export type IASZoneStatus = {
+  alarm1: boolean;
+  alarm2: boolean;
+  tamper: boolean;
+  /** Battery low */
+  battery: boolean;
+  /** The device sends periodic status reports */
+  supervisionReports: boolean;
+  /** The device reports when an alarm ends */
+  restoreReports: boolean;
+  trouble: boolean;
+  /** AC (mains) fault */
+  acMains: boolean;
+  /** Test mode */
+  test: boolean;
+  batteryDefect: boolean;
+};
+
+export type IASZoneStatusNotification = {
+  status: IASZoneStatus;
+  extendedStatus: number;
+  zoneId?: number;
+  /** Time since the status changed (ms); the device may report late */
+  delayMs: number;
+};
+
+/** Bit order of the zoneStatus bitmap */
+export const IAS_ZONE_STATUS_BITS: Array<keyof IASZoneStatus> = [
+  'alarm1',
+  'alarm2',
+  'tamper',
+  'battery',
+  'supervisionReports',
+  'restoreReports',
+  'trouble',
+  'acMains',
+  'test',
+  'batteryDefect',
+];
+
+/**
+ * Decode a zoneStatus bitmap. Missing or unknown input decodes as all bits clear.
+ */
+export function decodeZoneStatus(raw: unknown): IASZoneStatus {
+  const status = {} as IASZoneStatus;
+  IAS_ZONE_STATUS_BITS.forEach((bit, index) => {
+    if (typeof raw === 'number') {
+      status[bit] = (raw & (1 << index)) !== 0;
+    } else {
+      status[bit] = typeof raw === 'object' && raw !== null && (raw as Record<string, unknown>)[bit] === true;
+    }
+  });
+  return status;
+}
+
+/**
+ * Decode a zoneStatusChangeNotification (delay is in quarter seconds).
+ */
+export function decodeZoneStatusNotification(payload: {
+  zoneStatus?: unknown;
+  extendedStatus?: number;
+  zoneId?: number;
+  delay?: number;
+}): IASZoneStatusNotification {
+  return {
+    status: decodeZoneStatus(payload.zoneStatus),
+    extendedStatus: typeof payload.extendedStatus === 'number' ? payload.extendedStatus : 0,
+    zoneId: typeof payload.zoneId === 'number' ? payload.zoneId : undefined,
+    delayMs: typeof payload.delay === 'number' && payload.delay > 0 ? payload.delay * 250 : 0,
+  };
+}
+
+/**
+ * Names of the bits that are set, for logging.
+ */
+export function activeZoneStatusBits(status: IASZoneStatus): Array<keyof IASZoneStatus> {
+  return IAS_ZONE_STATUS_BITS.filter((bit) => status[bit]);
+}
+
+/**
+ * Bits that differ between two statuses; all set bits when there is no previous status.
+ */
+export function changedZoneStatusBits(previous: IASZoneStatus | undefined, current: IASZoneStatus): Array<keyof IASZoneStatus> {
+  if (!previous) return activeZoneStatusBits(current);
+  return IAS_ZONE_STATUS_BITS.filter((bit) => previous[bit] !== current[bit]);
+}
+
+/**
+ * A supervision report: the device supervises itself and nothing changed since the last status.
+ */
+export function isSupervisionReport(previous: IASZoneStatus | undefined, current: IASZoneStatus): boolean {
+  return current.supervisionReports && previous !== undefined && changedZoneStatusBits(previous, current).length === 0;
+}
@@ -0,0 +1,161 @@
+'use strict';
+
+/**
+ * Water leak alarm with optional latching.
+ *
+ * The sensor only reports wet/dry, so a short splash can raise and clear the alarm within a second.
+ * The alarm can be held for a while after the sensor is dry, or latched until someone acknowledges it.
+ * While it is on, a reminder can be repeated at an interval until it is acknowledged.
+ *
+ * All functions are pure; the state is a plain object that can live in the device store.
+ */
+
+export type LeakAlarmState = {
+  /** Alarm as shown in alarm_water */
+  active: boolean;
+  /** Latest sensor report */
+  wet: boolean;
+  /** Start of the current leak (ms) */
+  startedAt?: number;
+  /** Time the sensor turned dry while the alarm was on (ms) */
+  dryAt?: number;
+  /** Time of the start or of the last reminder (ms) */
+  notifiedAt?: number;
+  /** Someone acknowledged the alarm: no more reminders, and it clears as soon as the sensor is dry */
+  acknowledged: boolean;
+};
+
+export type LeakAlarmOptions = {
+  /** Keep the alarm on after the sensor is dry until acknowledged (or auto-cleared) */
+  latching: boolean;
+  /** Time the alarm stays on after the sensor is dry; 0 clears at once, or never when latching */
+  autoClearMs: number;
+  /** Reminder interval while the alarm is on; 0 turns reminders off */
+  renotifyMs: number;
+};
+
+export type LeakAlarmEvent = 'started' | 'still_active' | 'cleared';
+
+export type LeakAlarmUpdate = {
+  state: LeakAlarmState;
+  event?: LeakAlarmEvent;
+};
+
+export function createLeakAlarmState(): LeakAlarmState {
+  return { active: false, wet: false, acknowledged: false };
+}
+
+/**
+ * Settings (minutes) to options.
+ */
+export function leakAlarmOptionsFromSettings(settings: Record<string, any>): LeakAlarmOptions {
+  return {
+    latching: settings.leak_latching === true,
+    autoClearMs: Math.max(0, Number(settings.leak_auto_clear) || 0) * 60000,
+    renotifyMs: Math.max(0, Number(settings.leak_renotify) || 0) * 60000,
+  };
+}
+
+function isClearDue(state: LeakAlarmState, now: number, options: LeakAlarmOptions): boolean {
+  if (!state.active || state.wet) return false;
+  if (state.acknowledged) return true;
+  if (options.autoClearMs > 0) return now - (state.dryAt ?? now) >= options.autoClearMs;
+  return !options.latching;
+}
+
+function isReminderDue(state: LeakAlarmState, now: number, options: LeakAlarmOptions): boolean {
+  if (!state.active || state.acknowledged || !(options.renotifyMs > 0)) return false;
+  return now - (state.notifiedAt ?? now) >= options.renotifyMs;
+}
+
+function cleared(state: LeakAlarmState): LeakAlarmUpdate {
+  return { state: { active: false, wet: state.wet, acknowledged: false }, event: 'cleared' };
+}
+
+/**
+ * Apply a wet/dry report from the sensor.
+ */
+export function updateLeakSensor(state: LeakAlarmState, wet: boolean, now: number, options: LeakAlarmOptions): LeakAlarmUpdate {
+  if (wet) {
+    if (!state.active) {
+      return {
+        state: {
+          active: true, wet: true, startedAt: now, notifiedAt: now, acknowledged: false,
+        },
+        event: 'started',
+      };
+    }
+    // Wet again while the alarm is still on: the same leak continues
+    return {
+      state: {
+        active: true, wet: true, startedAt: state.startedAt, notifiedAt: state.notifiedAt, acknowledged: state.acknowledged,
+      },
+    };
+  }
+
+  if (!state.active) return { state: { active: false, wet: false, acknowledged: false } };
+  const next: LeakAlarmState = {
+    active: true,
+    wet: false,
+    startedAt: state.startedAt,
+    dryAt: state.wet ? now : state.dryAt,
+    notifiedAt: state.notifiedAt,
+    acknowledged: state.acknowledged,
+  };
+  return isClearDue(next, now, options) ? cleared(next) : { state: next };
+}
+
+/**
+ * Acknowledge the alarm. A dry sensor clears it; while still wet it stays on without reminders.
+ */
+export function acknowledgeLeak(state: LeakAlarmState): LeakAlarmUpdate {
+  if (!state.active) return { state };
+  if (!state.wet) return cleared(state);
+  return {
+    state: {
+      active: true, wet: true, startedAt: state.startedAt, notifiedAt: state.notifiedAt, acknowledged: true,
+    },
+  };
+}
+
+/**
+ * Time-based transitions: auto-clear after the delay, or a reminder when one is due.
+ * Also call after the options changed.
+ */
+export function tickLeakAlarm(state: LeakAlarmState, now: number, options: LeakAlarmOptions): LeakAlarmUpdate {
+  if (isClearDue(state, now, options)) return cleared(state);
+  if (isReminderDue(state, now, options)) {
+    return {
+      state: {
+        active: true,
+        wet: state.wet,
+        startedAt: state.startedAt,
+        dryAt: state.dryAt,
+        notifiedAt: now,
+        acknowledged: state.acknowledged,
+      },
+      event: 'still_active',
+    };
+  }
+  return { state };
+}
+
+/**
+ * Milliseconds until tickLeakAlarm has something to do; undefined when nothing is pending.
+ */
+export function nextLeakAlarmCheckMs(state: LeakAlarmState, now: number, options: LeakAlarmOptions): number | undefined {
+  if (!state.active) return undefined;
+  const due: number[] = [];
+  if (!state.wet && options.autoClearMs > 0) due.push((state.dryAt ?? now) + options.autoClearMs);
+  if (!state.acknowledged && options.renotifyMs > 0) due.push((state.notifiedAt ?? now) + options.renotifyMs);
+  if (due.length === 0) return undefined;
+  return Math.max(0, Math.min(...due) - now);
+}
+
+/**
+ * Whole minutes since the leak started.
+ */
+export function leakDurationMinutes(state: LeakAlarmState, now: number): number {
+  if (state.startedAt === undefined) return 0;
+  return Math.max(0, Math.round((now - state.startedAt) / 60000));
+}
@@ -0,0 +1,30 @@
+'use strict';
+
+/**
+ * Link quality of received frames, from the metadata Homey passes along with each frame.
+ */
+
+/** Capability with the LQI (0-255) of the latest frame */
+export const LINK_QUALITY_CAPABILITY = 'link_quality';
+
+/** Capability with the RSSI (dBm) of the latest frame */
+export const SIGNAL_STRENGTH_CAPABILITY = 'signal_strength';
+
+export type LinkQuality = {
+  lqi?: number;
+  rssi?: number;
+};
+
+/**
+ * LQI and RSSI from frame metadata; values that are missing or out of range are left out.
+ */
+export function linkQualityFromFrameMeta(meta: unknown): LinkQuality {
+  if (typeof meta !== 'object' || meta === null) return {};
+  const fields = meta as Record<string, unknown>;
+  const lqi = fields.lqi ?? fields.linkQuality;
+  const { rssi } = fields;
+  return {
+    lqi: typeof lqi === 'number' && Number.isInteger(lqi) && lqi >= 0 && lqi <= 255 ? lqi : undefined,
+    rssi: typeof rssi === 'number' && Number.isFinite(rssi) && rssi >= -128 && rssi <= 20 ? Math.round(rssi) : undefined,
+  };
+}
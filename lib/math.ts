@@ -0,0 +1,39 @@
+'use strict';
+
+/**
+ * Numeric helpers shared by the drivers.
+ */
+
+export function clampNumber(value: number, min: number, max: number): number {
+  if (Number.isNaN(value)) return min;
+  return Math.min(max, Math.max(min, value));
+}
+
+export function clampPercent(value: number): number {
+  return clampNumber(value, 0, 100);
+}
+
+export function clampInt(value: number, min: number, max: number): number {
+  return Math.round(clampNumber(value, min, max));
+}
+
+/**
+ * Least-squares line through (x, y) points: y = intercept + slope * x.
+ * Returns undefined for fewer than two distinct x values.
+ */
+export function fitLine(points: Array<{ x: number; y: number }>): { slope: number; intercept: number } | undefined {
+  if (points.length < 2) return undefined;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    variance += (p.x - meanX) ** 2;
+  }
+  if (variance === 0) return undefined;
+
+  const slope = covariance / variance;
+  return { slope, intercept: meanY - slope * meanX };
+}
@@ -0,0 +1,155 @@
+'use strict';
+
+/**
+ * Offline detection for sleepy sensors.
+ *
+ * A sensor reports at least once per expected period (derived from its sampling or reporting
+ * interval). When nothing was received for `missedPeriods` periods the device is considered offline,
+ * e.g. because its batteries are dead; the next received frame brings it back.
+ */
+
+/** Timer functions; devices pass this.homey so timers are cleared when the app stops */
+export type WatchdogTimers = {
+  setTimeout(callback: () => void, ms: number): any;
+  clearTimeout(timer: any): void;
+};
+
+export type OfflineEvent = {
+  /** Time of the last received frame (ms) */
+  lastSeen: number;
+  /** Time without frames when the device was declared offline (ms) */
+  silentMs: number;
+};
+
+const MAX_TIMER_MS = 0x7fffffff;
+
+/** Missed periods before a device is declared offline */
+export const DEFAULT_MISSED_PERIODS = 3;
+
+/** Store key of the last seen timestamp, kept across restarts */
+export const LAST_SEEN_STORE_KEY = 'lastSeen';
+
+/** Capability showing when the device was last heard from */
+export const LAST_SEEN_CAPABILITY = 'last_seen';
+
+/** Setting with the number of missed periods (0 disables the watchdog) */
+export const OFFLINE_MISSED_PERIODS_SETTING = 'offline_missed_periods';
+
+/**
+ * Expected report period from the device's reporting/sampling intervals (seconds).
+ * Takes the longest interval, so a device that only reports some metrics on change is not flagged.
+ */
+export function expectedReportPeriodMs(intervalsSeconds: Array<number | undefined>): number | undefined {
+  const valid = intervalsSeconds.filter((s): s is number => typeof s === 'number' && s > 0);
+  if (valid.length === 0) return undefined;
+  return Math.max(...valid) * 1000;
+}
+
+/**
+ * Time without frames after which the device is offline; undefined when the watchdog is off.
+ */
+export function offlineAfterMs(periodMs: number | undefined, missedPeriods: number): number | undefined {
+  if (!periodMs || !(missedPeriods > 0)) return undefined;
+  return periodMs * missedPeriods;
+}
+
+/**
+ * Local "YYYY-MM-DD HH:mm" for the last seen capability (offset from getTimezoneOffsetMinutes).
+ */
+export function formatLastSeen(at: number, timezoneOffsetMinutes: number): string {
+  return new Date(at + timezoneOffsetMinutes * 60000).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+// Marks the watching handler and holds the handler it forwards to
+const WATCHED_HANDLE_FRAME = Symbol('watchedHandleFrame');
+
+/**
+ * Let `listener` see each incoming frame (any endpoint and cluster) with the frame's metadata
+ * (e.g. link quality). Hooks the Homey ZigBeeNode's handleFrame, the single entry point Homey calls
+ * for incoming frames (the ZCLNode registers itself there), and forwards to the previous handler.
+ * Watching again replaces the previous listener, e.g. when the device is re-initialised.
+ */
+export function watchIncomingFrames(node: any, listener: (endpointId: number, clusterId: number, meta: any) => void): void {
+  const handleFrame = node?.handleFrame?.[WATCHED_HANDLE_FRAME] ?? node?.handleFrame;
+  if (typeof handleFrame !== 'function') return;
+
+  const watched = (endpointId: number, clusterId: number, frame: Buffer, meta: any) => {
+    listener(endpointId, clusterId, meta);
+    return handleFrame.call(node, endpointId, clusterId, frame, meta);
+  };
+  node.handleFrame = Object.assign(watched, { [WATCHED_HANDLE_FRAME]: handleFrame });
+}
+
+export default class OfflineWatchdog {
+
+  private timer: any;
+  private offlineAfter?: number;
+  private lastSeenAt?: number;
+  private offlineState = false;
+  private readonly timers: WatchdogTimers;
+  private readonly onOffline: (event: OfflineEvent) => void;
+  private readonly now: () => number;
+
+  constructor(timers: WatchdogTimers, onOffline: (event: OfflineEvent) => void, now: () => number = Date.now) {
+    this.timers = timers;
+    this.onOffline = onOffline;
+    this.now = now;
+  }
+
+  get lastSeen(): number | undefined {
+    return this.lastSeenAt;
+  }
+
+  get offline(): boolean {
+    return this.offlineState;
+  }
+
+  /**
+   * (Re)arm the watchdog. `lastSeen` restores the timestamp persisted before a restart.
+   * An undefined `offlineAfter` stops it.
+   */
+  start(offlineAfter: number | undefined, lastSeen?: number) {
+    this.offlineAfter = offlineAfter;
+    if (typeof lastSeen === 'number' && !(this.lastSeenAt && this.lastSeenAt > lastSeen)) {
+      this.lastSeenAt = lastSeen;
+    }
+    this.arm();
+  }
+
+  /**
+   * Record a received frame. Returns true when the device was offline until now.
+   */
+  seen(at: number = this.now()): boolean {
+    const wasOffline = this.offlineState;
+    this.lastSeenAt = at;
+    this.offlineState = false;
+    this.arm();
+    return wasOffline;
+  }
+
+  stop() {
+    if (this.timer !== undefined) this.timers.clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private arm() {
+    this.stop();
+    if (this.offlineAfter === undefined || this.offlineState) return;
+
+    // Count from the last frame, or from the start when the device was never seen
+    if (this.lastSeenAt === undefined) this.lastSeenAt = this.now();
+    const since = this.lastSeenAt;
+    const remaining = Math.max(0, since + this.offlineAfter - this.now());
+    this.timer = this.timers.setTimeout(() => {
+      this.timer = undefined;
+      // Long timeouts are split, timers overflow after ~24.8 days
+      if (remaining > MAX_TIMER_MS) {
+        this.arm();
+        return;
+      }
+      this.offlineState = true;
+      this.onOffline({ lastSeen: since, silentMs: this.now() - since });
+    }, Math.min(remaining, MAX_TIMER_MS));
+  }
+
+}
@@ -0,0 +1,99 @@
+'use strict';
+
+/**
+ * Spike rejection for sensor readings.
+ *
+ * A sample is implausible when it lies outside [min, max], or when it moved further from the
+ * last accepted sample than `maxDelta + maxRatePerMinute * minutes elapsed`. An implausible
+ * sample is rejected and remembered as a candidate: when the next sample confirms it (is a
+ * plausible change from the candidate), the new level is accepted as a real step change,
+ * e.g. after watering. One-off glitches are therefore dropped, real jumps are delayed by one report.
+ *
+ * All functions are pure; the state is a plain object that can live in the device store.
+ */
+
+export type OutlierFilterOptions = {
+  min?: number;
+  max?: number;
+  /** Change that is always plausible, regardless of the time elapsed */
+  maxDelta: number;
+  /** Additional plausible change per elapsed minute */
+  maxRatePerMinute: number;
+};
+
+export type FilterSample = {
+  value: number;
+  /** Time of the sample (ms) */
+  at: number;
+};
+
+export type OutlierFilterState = {
+  lastAccepted?: FilterSample;
+  /** Last rejected sample; accepted once the next sample confirms it */
+  candidate?: FilterSample;
+  /** Number of rejected samples so far */
+  rejected: number;
+};
+
+export type OutlierFilterResult = {
+  accepted: boolean;
+  /** Why the sample was rejected */
+  reason?: 'range' | 'rate';
+  state: OutlierFilterState;
+};
+
+/**
+ * Per-metric defaults for the Hobeian sensors. Soil moisture changes slowly except when
+ * watering, which the candidate confirmation lets through.
+ */
+export const OUTLIER_FILTER_DEFAULTS: Record<'soilMoisture' | 'temperature' | 'humidity', OutlierFilterOptions> = {
+  soilMoisture: {
+    min: 0, max: 100, maxDelta: 10, maxRatePerMinute: 0.05,
+  },
+  temperature: {
+    min: -30, max: 70, maxDelta: 3, maxRatePerMinute: 0.5,
+  },
+  humidity: {
+    min: 0, max: 100, maxDelta: 10, maxRatePerMinute: 2,
+  },
+};
+
+export function createOutlierFilterState(): OutlierFilterState {
+  return { rejected: 0 };
+}
+
+export function isPlausibleChange(from: FilterSample, to: FilterSample, options: OutlierFilterOptions): boolean {
+  const minutes = Math.max(0, to.at - from.at) / 60000;
+  return Math.abs(to.value - from.value) <= options.maxDelta + options.maxRatePerMinute * minutes;
+}
+
+export function filterOutlier(
+  state: OutlierFilterState,
+  sample: FilterSample,
+  options: OutlierFilterOptions,
+): OutlierFilterResult {
+  const rejected = state.rejected ?? 0;
+
+  if (Number.isNaN(sample.value)
+    || (typeof options.min === 'number' && sample.value < options.min)
+    || (typeof options.max === 'number' && sample.value > options.max)) {
+    return {
+      accepted: false,
+      reason: 'range',
+      state: { lastAccepted: state.lastAccepted, candidate: state.candidate, rejected: rejected + 1 },
+    };
+  }
+
+  const plausible = !state.lastAccepted
+    || isPlausibleChange(state.lastAccepted, sample, options)
+    || (!!state.candidate && isPlausibleChange(state.candidate, sample, options));
+  if (plausible) {
+    return { accepted: true, state: { lastAccepted: sample, rejected } };
+  }
+
+  return {
+    accepted: false,
+    reason: 'rate',
+    state: { lastAccepted: state.lastAccepted, candidate: sample, rejected: rejected + 1 },
+  };
+}
@@ -0,0 +1,177 @@
+'use strict';
+
+/**
+ * Plant profiles: target ranges per species for soil moisture (%), temperature (°C)
+ * and air humidity (%).
+ *
+ * The bundled profiles are starting points for capacitive soil sensors such as the ZG-303Z.
+ * Custom profiles are stored as a JSON array in the app settings (see settings/index.html).
+ */
+
+export type ProfileRange = { min: number; max: number };
+
+export type PlantProfile = {
+  id: string;
+  name: string;
+  soilMoisture: ProfileRange;
+  temperature: ProfileRange;
+  humidity: ProfileRange;
+};
+
+/** App setting that holds the custom profiles */
+export const CUSTOM_PLANT_PROFILES_SETTING = 'customPlantProfiles';
+
+/** Device setting value that selects a custom profile by id or name */
+export const CUSTOM_PROFILE_ID = 'custom';
+
+/** Device setting value for "no profile, manual threshold" */
+export const NO_PROFILE_ID = 'none';
+
+/** Device setting with the soil dryness threshold (%) */
+export const SOIL_WARNING_SETTING = 'soil_warning';
+
+const profile = (
+  id: string,
+  name: string,
+  soilMoisture: [number, number],
+  temperature: [number, number],
+  humidity: [number, number],
+): PlantProfile => ({
+  id,
+  name,
+  soilMoisture: { min: soilMoisture[0], max: soilMoisture[1] },
+  temperature: { min: temperature[0], max: temperature[1] },
+  humidity: { min: humidity[0], max: humidity[1] },
+});
+
+export const PLANT_PROFILES: PlantProfile[] = [
+  profile('cactus', 'Cactus / succulent', [10, 40], [10, 35], [10, 50]),
+  profile('snake_plant', 'Snake plant', [15, 45], [13, 32], [30, 60]),
+  profile('monstera', 'Monstera', [30, 70], [16, 30], [50, 80]),
+  profile('pothos', 'Pothos', [30, 65], [15, 30], [40, 70]),
+  profile('ficus', 'Ficus / fiddle leaf fig', [30, 60], [15, 30], [40, 70]),
+  profile('peace_lily', 'Peace lily', [40, 75], [16, 30], [50, 80]),
+  profile('orchid', 'Orchid (Phalaenopsis)', [30, 60], [18, 30], [50, 80]),
+  profile('fern', 'Fern', [45, 80], [15, 27], [60, 90]),
+  profile('herbs', 'Herbs (basil, parsley)', [40, 70], [15, 30], [40, 70]),
+  profile('tomato', 'Tomato', [40, 75], [12, 32], [40, 80]),
+  profile('lawn', 'Lawn', [30, 70], [5, 35], [20, 90]),
+];
+
+function toRange(value: any): ProfileRange | undefined {
+  if (!value || typeof value.min !== 'number' || typeof value.max !== 'number') return undefined;
+  if (Number.isNaN(value.min) || Number.isNaN(value.max) || value.min > value.max) return undefined;
+  return { min: value.min, max: value.max };
+}
+
+/**
+ * Validate custom profiles read from the app settings (an array, or its JSON text).
+ * Invalid entries are skipped; a missing name falls back to the id.
+ */
+export function parseCustomPlantProfiles(stored: unknown): PlantProfile[] {
+  let value = stored;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (err) {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  const profiles: PlantProfile[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry.id !== 'string' || entry.id.trim() === '') continue;
+    const soilMoisture = toRange(entry.soilMoisture);
+    const temperature = toRange(entry.temperature);
+    const humidity = toRange(entry.humidity);
+    if (!soilMoisture || !temperature || !humidity) continue;
+
+    profiles.push({
+      id: entry.id.trim(),
+      name: typeof entry.name === 'string' && entry.name.trim() !== '' ? entry.name.trim() : entry.id.trim(),
+      soilMoisture,
+      temperature,
+      humidity,
+    });
+  }
+  return profiles;
+}
+
+/**
+ * Resolve the profile selected on a device.
+ * `customName` (id or name, case-insensitive) picks a custom profile when `profileId` is 'custom'.
+ */
+export function resolvePlantProfile(params: {
+  profileId?: string;
+  customName?: string;
+  customProfiles?: PlantProfile[];
+}): PlantProfile | undefined {
+  const { profileId } = params;
+  if (!profileId || profileId === NO_PROFILE_ID) return undefined;
+
+  if (profileId === CUSTOM_PROFILE_ID) {
+    const wanted = (params.customName ?? '').trim().toLowerCase();
+    if (wanted === '') return undefined;
+    return (params.customProfiles ?? []).find(
+      (p) => p.id.toLowerCase() === wanted || p.name.toLowerCase() === wanted,
+    );
+  }
+
+  return PLANT_PROFILES.find((p) => p.id === profileId);
+}
+
+/**
+ * The settings with the dryness threshold that applies: a selected profile sets it to the profile's
+ * minimum soil moisture, otherwise the soil_warning setting is used as is.
+ */
+export function withProfileThreshold(settings: Record<string, any>, profile: PlantProfile | undefined): Record<string, any> {
+  if (!profile) return settings;
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(settings)) result[key] = value;
+  result[SOIL_WARNING_SETTING] = profile.soilMoisture.min;
+  return result;
+}
+
+/**
+ * A settings change as applied to the device: with a profile selected, soil_warning is the profile's
+ * threshold. It counts as changed whenever the threshold in use changed (e.g. another profile was
+ * picked), so it is written to the device, and not when only the overridden setting changed.
+ */
+export function applyProfileThreshold(change: {
+  oldSettings: Record<string, any>;
+  newSettings: Record<string, any>;
+  changedKeys: string[];
+  oldProfile?: PlantProfile;
+  newProfile?: PlantProfile;
+}): { newSettings: Record<string, any>; changedKeys: string[] } {
+  const newSettings = withProfileThreshold(change.newSettings, change.newProfile);
+  const previous = withProfileThreshold(change.oldSettings, change.oldProfile)[SOIL_WARNING_SETTING];
+  const changedKeys = change.changedKeys.filter((key) => key !== SOIL_WARNING_SETTING);
+  if (newSettings[SOIL_WARNING_SETTING] !== previous) changedKeys.push(SOIL_WARNING_SETTING);
+  return { newSettings, changedKeys };
+}
+
+export type PlantAlarms = {
+  tooWet: boolean;
+  tooCold: boolean;
+  dryAir: boolean;
+};
+
+/**
+ * Compare the current readings with the profile. Unknown readings never raise an alarm.
+ */
+export function evaluatePlantAlarms(
+  plantProfile: PlantProfile | undefined,
+  readings: { soilMoisture?: number | null; temperature?: number | null; humidity?: number | null },
+): PlantAlarms {
+  if (!plantProfile) return { tooWet: false, tooCold: false, dryAir: false };
+
+  const below = (value: number | null | undefined, limit: number) => typeof value === 'number' && value < limit;
+  const above = (value: number | null | undefined, limit: number) => typeof value === 'number' && value > limit;
+  return {
+    tooWet: above(readings.soilMoisture, plantProfile.soilMoisture.max),
+    tooCold: below(readings.temperature, plantProfile.temperature.min),
+    dryAir: below(readings.humidity, plantProfile.humidity.min),
+  };
+}
@@ -1,75 +1,310 @@
 'use strict';
 
+// Tuya datapoint types
+export const TuyaDataTypes = {
+  RAW: 0x00,
+  BOOL: 0x01,
+  VALUE: 0x02,
+  STRING: 0x03,
+  ENUM: 0x04,
+  BITMAP: 0x05,
+} as const;
+
+export type TuyaDataType = typeof TuyaDataTypes[keyof typeof TuyaDataTypes];
+
+/**
+ * A single datapoint entry as it appears on the wire (data still encoded).
+ */
 export type TuyaDpValue = {
   dp: number;
   datatype: number;
   data: Buffer;
 };
 
+/**
+ * Decoded representation of a datapoint value:
+ * - RAW => Buffer
+ * - BOOL => boolean
+ * - VALUE / ENUM / BITMAP => number
+ * - STRING => string
+ */
+export type TuyaValue = Buffer | boolean | number | string;
+
+export type TuyaDatapoint = {
+  dp: number;
+  datatype: number;
+  value: TuyaValue;
+};
+
+export type TuyaBitmapWidth = 1 | 2 | 4;
+
+export type TuyaPayload = {
+  status: number;
+  transid: number;
+  dpValues: TuyaDpValue[];
+};
+
 export type DecodedTuyaFrame = {
   zclHeaderLength: number;
+  /** ZCL transaction sequence number */
+  seq?: number;
   commandId: number;
   status?: number;
   transid?: number;
   dpValues: TuyaDpValue[];
 };
 
+// ZCL frame control bits used when building Tuya frames
+const ZCL_FRAME_CLUSTER_SPECIFIC = 0x01;
+const ZCL_FRAME_MANUFACTURER_SPECIFIC = 0x04;
+
 function readZclHeaderLength(frame: Buffer): number {
   if (frame.length < 3) return 0;
   const frameControl = frame.readUInt8(0);
-  const manufacturerSpecific = (frameControl & 0x04) !== 0;
+  const manufacturerSpecific = (frameControl & ZCL_FRAME_MANUFACTURER_SPECIFIC) !== 0;
   // ZCL header: frameControl(1) + [manufCode(2)] + seq(1) + cmd(1)
   return manufacturerSpecific ? 5 : 3;
 }
 
+function toNumber(value: TuyaValue): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  throw new TypeError(`Expected a numeric Tuya value, got ${typeof value}`);
+}
+
 /**
- * Decode a Tuya 0xEF00 ZCL frame into datapoint values.
+ * Encode a single datapoint value into its wire representation.
  *
- * Supports the common Tuya payload layout:
- *   [status:1][transid:1][dp:1][datatype:1][len:2][data:len]...
+ * Widths follow the Tuya MCU protocol:
+ * - BOOL / ENUM: 1 byte
+ * - VALUE: 4 bytes, signed big-endian
+ * - BITMAP: 1, 2 or 4 bytes big-endian (defaults to the smallest width that fits)
+ * - STRING: UTF-8 bytes
+ * - RAW: bytes as-is
+ */
+export function encodeTuyaDpData(
+  datatype: number,
+  value: TuyaValue,
+  options: { bitmapWidth?: TuyaBitmapWidth } = {},
+): Buffer {
+  switch (datatype) {
+    case TuyaDataTypes.RAW:
+      if (!Buffer.isBuffer(value)) throw new TypeError('RAW datapoints require a Buffer value');
+      return Buffer.from(value);
+
+    case TuyaDataTypes.BOOL:
+      return Buffer.from([toNumber(value) ? 1 : 0]);
+
+    case TuyaDataTypes.VALUE: {
+      const data = Buffer.alloc(4);
+      data.writeInt32BE(Math.round(toNumber(value)), 0);
+      return data;
+    }
+
+    case TuyaDataTypes.STRING:
+      return Buffer.from(String(value), 'utf8');
+
+    case TuyaDataTypes.ENUM:
+      return Buffer.from([toNumber(value) & 0xff]);
+
+    case TuyaDataTypes.BITMAP: {
+      const bits = toNumber(value) >>> 0;
+      let width: TuyaBitmapWidth = 1;
+      if (bits > 0xffff) width = 4;
+      else if (bits > 0xff) width = 2;
+      if (options.bitmapWidth) width = options.bitmapWidth;
+      const data = Buffer.alloc(width);
+      if (width === 4) data.writeUInt32BE(bits, 0);
+      else if (width === 2) data.writeUInt16BE(bits & 0xffff, 0);
+      else data.writeUInt8(bits & 0xff, 0);
+      return data;
+    }
+
+    default:
+      throw new Error(`Unknown Tuya datatype ${datatype}`);
+  }
+}
+
+/**
+ * Decode the data of a single datapoint based on its datatype.
  *
  * Notes:
- * - Tuya uses big-endian for the length field.
- * - Some frames contain multiple dp entries after a single status/transid.
+ * - VALUE is nominally 4 bytes, but some firmwares send 2 or 1 byte(s); those are accepted too.
+ * - Unknown datatypes are returned as RAW (Buffer).
  */
-export function decodeTuyaDpValuesFromZclFrame(frame: Buffer): DecodedTuyaFrame {
-  const headerLen = readZclHeaderLength(frame);
-  if (headerLen === 0 || frame.length < headerLen) {
-    return { zclHeaderLength: 0, commandId: 0, dpValues: [] };
-  }
+export function decodeTuyaDpData(datatype: number, data: Buffer): TuyaValue {
+  switch (datatype) {
+    case TuyaDataTypes.BOOL:
+      if (data.length < 1) throw new Error('BOOL datapoint without data');
+      return data.readUInt8(0) !== 0;
 
-  const commandId = frame.readUInt8(headerLen - 1);
-  let offset = headerLen;
+    case TuyaDataTypes.VALUE:
+      if (data.length >= 4) return data.readInt32BE(0);
+      if (data.length >= 2) return data.readInt16BE(0);
+      if (data.length >= 1) return data.readUInt8(0);
+      throw new Error('VALUE datapoint without data');
+
+    case TuyaDataTypes.STRING:
+      return data.toString('utf8');
+
+    case TuyaDataTypes.ENUM:
+      if (data.length < 1) throw new Error('ENUM datapoint without data');
+      return data.readUInt8(0);
+
+    case TuyaDataTypes.BITMAP:
+      if (data.length >= 4) return data.readUInt32BE(0);
+      if (data.length >= 2) return data.readUInt16BE(0);
+      if (data.length >= 1) return data.readUInt8(0);
+      throw new Error('BITMAP datapoint without data');
 
-  if (frame.length - offset < 2) {
-    return { zclHeaderLength: headerLen, commandId, dpValues: [] };
+    default:
+      return Buffer.from(data);
   }
+}
+
+export function encodeTuyaDatapoint(
+  datapoint: TuyaDatapoint,
+  options: { bitmapWidth?: TuyaBitmapWidth } = {},
+): TuyaDpValue {
+  return {
+    dp: datapoint.dp,
+    datatype: datapoint.datatype,
+    data: encodeTuyaDpData(datapoint.datatype, datapoint.value, options),
+  };
+}
+
+export function decodeTuyaDatapoint(dpValue: TuyaDpValue): TuyaDatapoint {
+  return {
+    dp: dpValue.dp,
+    datatype: dpValue.datatype,
+    value: decodeTuyaDpData(dpValue.datatype, dpValue.data),
+  };
+}
 
-  const status = frame.readUInt8(offset);
-  const transid = frame.readUInt8(offset + 1);
-  offset += 2;
+/**
+ * Encode a list of datapoint entries: [dp:1][datatype:1][len:2 BE][data:len]...
+ */
+export function encodeTuyaDpValues(dpValues: TuyaDpValue[]): Buffer {
+  return Buffer.concat(dpValues.map(({ dp, datatype, data }) => {
+    const header = Buffer.alloc(4);
+    header.writeUInt8(dp & 0xff, 0);
+    header.writeUInt8(datatype & 0xff, 1);
+    header.writeUInt16BE(data.length, 2);
+    return Buffer.concat([header, data]);
+  }));
+}
 
+/**
+ * Decode a list of datapoint entries starting at `offset`.
+ * Stops at the first truncated entry.
+ */
+export function decodeTuyaDpValues(buffer: Buffer, offset = 0): TuyaDpValue[] {
   const dpValues: TuyaDpValue[] = [];
 
-  while (frame.length - offset >= 4) {
-    const dp = frame.readUInt8(offset);
-    const datatype = frame.readUInt8(offset + 1);
-    const len = frame.readUInt16BE(offset + 2);
+  while (buffer.length - offset >= 4) {
+    const dp = buffer.readUInt8(offset);
+    const datatype = buffer.readUInt8(offset + 1);
+    const len = buffer.readUInt16BE(offset + 2);
     offset += 4;
 
-    if (len < 0 || frame.length - offset < len) break;
+    if (buffer.length - offset < len) break;
 
-    const data = frame.subarray(offset, offset + len);
+    // Copy so the entry does not keep the (possibly larger) frame buffer alive
+    const data = Buffer.from(buffer.subarray(offset, offset + len));
     offset += len;
 
     dpValues.push({ dp, datatype, data });
   }
 
+  return dpValues;
+}
+
+/**
+ * Encode a Tuya command payload (everything after the ZCL header):
+ *   [status:1][transid:1][dp entries...]
+ */
+export function encodeTuyaPayload(payload: TuyaPayload): Buffer {
+  return Buffer.concat([
+    Buffer.from([payload.status & 0xff, payload.transid & 0xff]),
+    encodeTuyaDpValues(payload.dpValues),
+  ]);
+}
+
+/**
+ * Decode a Tuya command payload (everything after the ZCL header).
+ * Returns undefined when the payload is too short to hold status/transid.
+ */
+export function decodeTuyaPayload(payload: Buffer): TuyaPayload | undefined {
+  if (payload.length < 2) return undefined;
+  return {
+    status: payload.readUInt8(0),
+    transid: payload.readUInt8(1),
+    dpValues: decodeTuyaDpValues(payload, 2),
+  };
+}
+
+/**
+ * Build a complete Tuya 0xEF00 ZCL frame.
+ *
+ * frameControl defaults to a cluster-specific, client-to-server frame;
+ * the manufacturer-specific bit is added automatically when manufacturerCode is set.
+ */
+export function encodeTuyaZclFrame(params: {
+  commandId: number;
+  seq: number;
+  payload: TuyaPayload;
+  frameControl?: number;
+  manufacturerCode?: number;
+}): Buffer {
+  const manufacturerSpecific = typeof params.manufacturerCode === 'number';
+  let frameControl = params.frameControl ?? ZCL_FRAME_CLUSTER_SPECIFIC;
+  if (manufacturerSpecific) frameControl |= ZCL_FRAME_MANUFACTURER_SPECIFIC;
+
+  const header = Buffer.alloc(manufacturerSpecific ? 5 : 3);
+  let offset = 0;
+  header.writeUInt8(frameControl & 0xff, offset++);
+  if (manufacturerSpecific) {
+    header.writeUInt16LE(params.manufacturerCode as number, offset);
+    offset += 2;
+  }
+  header.writeUInt8(params.seq & 0xff, offset++);
+  header.writeUInt8(params.commandId & 0xff, offset);
+
+  return Buffer.concat([header, encodeTuyaPayload(params.payload)]);
+}
+
+/**
+ * Decode a Tuya 0xEF00 ZCL frame into datapoint values.
+ *
+ * Supports the common Tuya payload layout:
+ *   [status:1][transid:1][dp:1][datatype:1][len:2][data:len]...
+ *
+ * Notes:
+ * - Tuya uses big-endian for the length field.
+ * - Some frames contain multiple dp entries after a single status/transid.
+ */
+export function decodeTuyaDpValuesFromZclFrame(frame: Buffer): DecodedTuyaFrame {
+  const headerLen = readZclHeaderLength(frame);
+  if (headerLen === 0 || frame.length < headerLen) {
+    return { zclHeaderLength: 0, commandId: 0, dpValues: [] };
+  }
+
+  const seq = frame.readUInt8(headerLen - 2);
+  const commandId = frame.readUInt8(headerLen - 1);
+  const payload = decodeTuyaPayload(frame.subarray(headerLen));
+
+  if (!payload) {
+    return {
+      zclHeaderLength: headerLen, seq, commandId, dpValues: [],
+    };
+  }
+
   return {
     zclHeaderLength: headerLen,
+    seq,
     commandId,
-    status,
-    transid,
-    dpValues,
+    status: payload.status,
+    transid: payload.transid,
+    dpValues: payload.dpValues,
   };
 }
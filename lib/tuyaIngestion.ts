@@ -0,0 +1,136 @@
+'use strict';
+
+import { decodeTuyaDpData, TuyaDatapoint, TuyaDpValue } from './tuyaFrame';
+
+/** A report is a duplicate when the same datapoints arrive again within this window */
+export const DEDUP_WINDOW_MS = 10000;
+
+// Upper bound on remembered datapoints, should a device flood the window
+const MAX_SEEN_ENTRIES = 256;
+
+/**
+ * Datapoints from one incoming frame, as emitted by the Tuya cluster.
+ */
+export type TuyaReport = {
+  /** ZCL transaction sequence number */
+  seq?: number;
+  commandId: number;
+  status?: number;
+  transid?: number;
+  dpValues: TuyaDpValue[];
+};
+
+export type TuyaIngestionCounters = {
+  /** Reports received, duplicates included */
+  reports: number;
+  /** Reports that carried nothing new */
+  duplicateReports: number;
+  /** Datapoints passed on for processing */
+  datapoints: number;
+  /** Datapoints dropped as duplicates */
+  duplicateDatapoints: number;
+};
+
+export type TuyaIngestionResult = {
+  /** New datapoints, still encoded (to acknowledge echoed writes) */
+  fresh: TuyaDpValue[];
+  /** New datapoints that decoded, in report order */
+  datapoints: TuyaDatapoint[];
+  /** New datapoints whose data could not be decoded; skipped */
+  invalid: Array<{ dpValue: TuyaDpValue; error: Error }>;
+  /** Datapoints dropped as duplicates */
+  duplicates: number;
+};
+
+type SeenDatapoint = {
+  seq?: number;
+  transid?: number;
+  key: string;
+  at: number;
+};
+
+/**
+ * Deduplicates Tuya reports for one device.
+ *
+ * The same frame can reach the device more than once, e.g. when the device or the network
+ * retransmits it. A datapoint is a duplicate when the same DP, type and data were already seen within
+ * the window with the same transid and ZCL sequence number. A sequence number missing on either side
+ * is not compared.
+ */
+export default class TuyaReportDeduplicator {
+
+  private readonly windowMs: number;
+  private seen: SeenDatapoint[] = [];
+  private readonly totals: TuyaIngestionCounters = {
+    reports: 0,
+    duplicateReports: 0,
+    datapoints: 0,
+    duplicateDatapoints: 0,
+  };
+
+  constructor(windowMs = DEDUP_WINDOW_MS) {
+    this.windowMs = windowMs;
+  }
+
+  get counters(): TuyaIngestionCounters {
+    return {
+      reports: this.totals.reports,
+      duplicateReports: this.totals.duplicateReports,
+      datapoints: this.totals.datapoints,
+      duplicateDatapoints: this.totals.duplicateDatapoints,
+    };
+  }
+
+  /**
+   * Returns the datapoints of the report that were not seen before, in report order.
+   */
+  accept(report: TuyaReport, now = Date.now()): TuyaDpValue[] {
+    this.seen = this.seen.filter((entry) => now - entry.at < this.windowMs);
+    this.totals.reports++;
+
+    const accepted: TuyaDpValue[] = [];
+    for (const dpValue of report.dpValues) {
+      const key = `${dpValue.dp}:${dpValue.datatype}:${dpValue.data.toString('hex')}`;
+      const duplicate = this.seen.some((entry) => entry.key === key
+        && entry.transid === report.transid
+        && (entry.seq === undefined || report.seq === undefined || entry.seq === report.seq));
+
+      if (duplicate) {
+        this.totals.duplicateDatapoints++;
+        continue;
+      }
+      this.seen.push({
+        seq: report.seq, transid: report.transid, key, at: now,
+      });
+      accepted.push(dpValue);
+    }
+
+    if (this.seen.length > MAX_SEEN_ENTRIES) this.seen.splice(0, this.seen.length - MAX_SEEN_ENTRIES);
+    if (accepted.length === 0 && report.dpValues.length > 0) this.totals.duplicateReports++;
+    this.totals.datapoints += accepted.length;
+    return accepted;
+  }
+
+}
+
+/**
+ * Deduplicate a report and decode its new datapoints. A datapoint that does not decode
+ * (e.g. a VALUE without data) is skipped; the rest of the report is still processed.
+ */
+export function ingestTuyaReport(deduplicator: TuyaReportDeduplicator, report: TuyaReport, now = Date.now()): TuyaIngestionResult {
+  const fresh = deduplicator.accept(report, now);
+  const result: TuyaIngestionResult = {
+    fresh,
+    datapoints: [],
+    invalid: [],
+    duplicates: report.dpValues.length - fresh.length,
+  };
+  for (const dpValue of fresh) {
+    try {
+      result.datapoints.push({ dp: dpValue.dp, datatype: dpValue.datatype, value: decodeTuyaDpData(dpValue.datatype, dpValue.data) });
+    } catch (err) {
+      result.invalid.push({ dpValue, error: err as Error });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,61 @@
+'use strict';
+
+/**
+ * Tuya time synchronization (command 0x24).
+ *
+ * The device asks for the time; the gateway answers with
+ *   [utcSeconds:4 BE][localSeconds:4 BE]
+ * where localSeconds = utcSeconds + timezone offset. The cluster prefixes the
+ * payload size (uint16) when sending.
+ */
+
+/**
+ * Offset of an IANA timezone from UTC at a given moment, in minutes (east of UTC is positive).
+ * Falls back to 0 (UTC) for unknown timezones.
+ */
+export function getTimezoneOffsetMinutes(timeZone: string, at: Date): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(at);
+  } catch (err) {
+    return 0;
+  }
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  const atSeconds = Math.floor(at.getTime() / 1000) * 1000;
+  return Math.round((asUtc - atSeconds) / 60000);
+}
+
+/**
+ * Build the 8-byte time payload sent in reply to a device time request.
+ */
+export function encodeTuyaTimeSyncPayload(params: {
+  nowMs: number;
+  timezoneOffsetMinutes: number;
+}): Buffer {
+  const utcSeconds = Math.round(params.nowMs / 1000);
+  const localSeconds = utcSeconds + params.timezoneOffsetMinutes * 60;
+
+  const payload = Buffer.alloc(8);
+  payload.writeUInt32BE(utcSeconds >>> 0, 0);
+  payload.writeUInt32BE(localSeconds >>> 0, 4);
+  return payload;
+}
+
+export function decodeTuyaTimeSyncPayload(payload: Buffer): { utcSeconds: number; localSeconds: number } {
+  if (payload.length < 8) throw new Error(`Time sync payload too short (${payload.length} bytes)`);
+  return {
+    utcSeconds: payload.readUInt32BE(0),
+    localSeconds: payload.readUInt32BE(4),
+  };
+}
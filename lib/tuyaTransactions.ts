@@ -0,0 +1,109 @@
+'use strict';
+
+import type { WatchdogTimers } from './offlineWatchdog';
+import type { TuyaDpValue } from './tuyaFrame';
+
+type PendingTransaction = {
+  transid: number;
+  dp: number;
+  data: Buffer;
+  resolve: () => void;
+  reject: (err: Error) => void;
+  timer: any;
+};
+
+/**
+ * Tracks outstanding Tuya datapoint writes for one device.
+ *
+ * - Transaction IDs increase monotonically (wrapping at 255).
+ * - Incoming `response`/`reporting` frames are correlated with outstanding writes:
+ *   first by transid, otherwise by DP + identical data (devices that use their own sequence).
+ * - Write timeouts run on the timers the device provides (see useTimers).
+ */
+export default class TuyaTransactionTracker {
+
+  private lastTransid: number;
+  private pending: PendingTransaction[] = [];
+  private timers?: WatchdogTimers;
+
+  constructor(initialTransid = 0) {
+    this.lastTransid = initialTransid & 0xff;
+  }
+
+  /**
+   * Timers for write timeouts; devices pass this.homey so timers are cleared when the app stops.
+   */
+  useTimers(timers: WatchdogTimers) {
+    this.timers = timers;
+  }
+
+  nextTransid(): number {
+    this.lastTransid = (this.lastTransid + 1) & 0xff;
+    return this.lastTransid;
+  }
+
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Resolves when the device echoes the write, rejects after timeoutMs.
+   */
+  waitForEcho(write: { transid: number; dp: number; data: Buffer }, timeoutMs: number): Promise<void> {
+    const { timers } = this;
+    if (!timers) return Promise.reject(new Error(`No timers to wait for the DP ${write.dp} echo`));
+    return new Promise((resolve, reject) => {
+      const entry: PendingTransaction = {
+        transid: write.transid,
+        dp: write.dp,
+        data: write.data,
+        resolve,
+        reject,
+        // Cleared on echo, timeout or rejectAll()
+        timer: timers.setTimeout(() => {
+          this.remove(entry);
+          reject(new Error(`Timeout waiting for DP ${write.dp} echo (transid ${write.transid})`));
+        }, timeoutMs),
+      };
+      this.pending.push(entry);
+    });
+  }
+
+  /**
+   * Feed an incoming frame; returns the number of writes it acknowledged.
+   */
+  handleEcho(transid: number | undefined, dpValues: TuyaDpValue[]): number {
+    const echoed = (entry: PendingTransaction) => dpValues.some((dpValue) => dpValue.dp === entry.dp);
+
+    let matches = this.pending.filter((entry) => entry.transid === transid && echoed(entry));
+    if (matches.length === 0) {
+      matches = this.pending.filter((entry) => dpValues.some(
+        (dpValue) => dpValue.dp === entry.dp && dpValue.data.equals(entry.data),
+      ));
+    }
+
+    for (const entry of matches) {
+      this.remove(entry);
+      entry.resolve();
+    }
+    return matches.length;
+  }
+
+  /**
+   * Reject all outstanding writes (e.g. when the device is deleted).
+   */
+  rejectAll(err: Error) {
+    const { pending } = this;
+    this.pending = [];
+    for (const entry of pending) {
+      this.timers?.clearTimeout(entry.timer);
+      entry.reject(err);
+    }
+  }
+
+  private remove(entry: PendingTransaction) {
+    this.timers?.clearTimeout(entry.timer);
+    this.pending = this.pending.filter((other) => other !== entry);
+  }
+
+}
@@ -0,0 +1,136 @@
+'use strict';
+
+/**
+ * Persistent queue of pending Tuya datapoint writes.
+ *
+ * The queue is a plain JSON object keyed by DP so it can live in the device store
+ * and survive app restarts. All functions are pure and return a new queue.
+ */
+
+export type QueuedDpValue = number | boolean | string;
+
+export type PendingDpWrite = {
+  dp: number;
+  datatype: number;
+  value: QueuedDpValue;
+  queuedAt: number;
+  attempts: number;
+  lastAttemptAt?: number;
+};
+
+export type DpWriteQueue = Record<string, PendingDpWrite>;
+
+export type DpWriteQueueOptions = {
+  /** Drop an entry after this many unacknowledged attempts */
+  maxAttempts: number;
+  /** Drop an entry when it has been queued for longer than this */
+  maxAgeMs: number;
+  /** Minimum time between two attempts for the same DP */
+  retryIntervalMs: number;
+};
+
+export const DEFAULT_WRITE_QUEUE_OPTIONS: DpWriteQueueOptions = {
+  maxAttempts: 5,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  retryIntervalMs: 60 * 1000,
+};
+
+function copyQueue(queue: DpWriteQueue): DpWriteQueue {
+  const copy: DpWriteQueue = {};
+  for (const [key, pending] of Object.entries(queue)) copy[key] = pending;
+  return copy;
+}
+
+/**
+ * Normalize whatever was read from the store into a queue.
+ */
+export function toDpWriteQueue(stored: unknown): DpWriteQueue {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {};
+  return copyQueue(stored as DpWriteQueue);
+}
+
+/**
+ * Queue a write. A newer write for the same DP replaces the older one (coalescing)
+ * and starts with a fresh attempt budget.
+ */
+export function enqueueDpWrite(
+  queue: DpWriteQueue,
+  write: { dp: number; datatype: number; value: QueuedDpValue },
+  now: number,
+): DpWriteQueue {
+  const next = copyQueue(queue);
+  next[write.dp] = {
+    dp: write.dp,
+    datatype: write.datatype,
+    value: write.value,
+    queuedAt: now,
+    attempts: 0,
+  };
+  return next;
+}
+
+/**
+ * Drop the entry for a DP when the device echoed the queued value.
+ * An echo with a different value (e.g. a report sent before the write landed) keeps the entry.
+ */
+export function acknowledgeDpWrite(queue: DpWriteQueue, dp: number, echoedValue: unknown): DpWriteQueue {
+  const pending = queue[dp];
+  if (!pending || pending.value !== echoedValue) return queue;
+
+  const next = copyQueue(queue);
+  delete next[dp];
+  return next;
+}
+
+/**
+ * Split the queue into writes that should be sent now and entries that gave up.
+ * Expired entries (too old or out of attempts) are removed from the returned queue.
+ */
+export function takeDueDpWrites(
+  queue: DpWriteQueue,
+  now: number,
+  options: DpWriteQueueOptions = DEFAULT_WRITE_QUEUE_OPTIONS,
+): { queue: DpWriteQueue; due: PendingDpWrite[]; expired: PendingDpWrite[] } {
+  const next: DpWriteQueue = {};
+  const due: PendingDpWrite[] = [];
+  const expired: PendingDpWrite[] = [];
+
+  for (const [key, pending] of Object.entries(queue)) {
+    if (pending.attempts >= options.maxAttempts || now - pending.queuedAt > options.maxAgeMs) {
+      expired.push(pending);
+      continue;
+    }
+
+    next[key] = pending;
+    if (typeof pending.lastAttemptAt !== 'number' || now - pending.lastAttemptAt >= options.retryIntervalMs) {
+      due.push(pending);
+    }
+  }
+
+  return { queue: next, due, expired };
+}
+
+/**
+ * Record that the given DPs were just sent.
+ */
+export function markDpWritesAttempted(queue: DpWriteQueue, dps: number[], now: number): DpWriteQueue {
+  const next = copyQueue(queue);
+  for (const dp of dps) {
+    const pending = next[dp];
+    if (pending) {
+      next[dp] = {
+        dp: pending.dp,
+        datatype: pending.datatype,
+        value: pending.value,
+        queuedAt: pending.queuedAt,
+        attempts: pending.attempts + 1,
+        lastAttemptAt: now,
+      };
+    }
+  }
+  return next;
+}
+
+export function countPendingDpWrites(queue: DpWriteQueue): number {
+  return Object.keys(queue).length;
+}
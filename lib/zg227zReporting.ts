@@ -0,0 +1,63 @@
+'use strict';
+
+import { clampInt } from './math';
+
+/**
+ * ZG-227Z attribute reporting, configurable per measurement from the device settings.
+ *
+ * Settings are in user units (seconds, °C, %); ZCL measuredValue is in hundredths.
+ */
+
+export type ReportingOptions = {
+  minInterval: number;
+  maxInterval: number;
+  /** In attribute units (hundredths of °C or %) */
+  minChange: number;
+};
+
+export type Measurement = 'temperature' | 'humidity';
+
+export const ZG227Z_REPORTING_DEFAULTS = {
+  MIN_INTERVAL_SECONDS: 60,
+  MAX_INTERVAL_SECONDS: 3600,
+  TEMPERATURE_MIN_CHANGE_C: 0.5,
+  HUMIDITY_MIN_CHANGE_PERCENT: 1,
+} as const;
+
+/** Setting ids per measurement */
+export const REPORTING_SETTINGS: Record<Measurement, { minInterval: string; maxInterval: string; minChange: string }> = {
+  temperature: {
+    minInterval: 'temperature_report_min_interval',
+    maxInterval: 'temperature_report_max_interval',
+    minChange: 'temperature_report_min_change',
+  },
+  humidity: {
+    minInterval: 'humidity_report_min_interval',
+    maxInterval: 'humidity_report_max_interval',
+    minChange: 'humidity_report_min_change',
+  },
+};
+
+const DEFAULT_MIN_CHANGE: Record<Measurement, number> = {
+  temperature: ZG227Z_REPORTING_DEFAULTS.TEMPERATURE_MIN_CHANGE_C,
+  humidity: ZG227Z_REPORTING_DEFAULTS.HUMIDITY_MIN_CHANGE_PERCENT,
+};
+
+/**
+ * All reporting setting ids, to detect when reporting must be reconfigured.
+ */
+export function reportingSettingKeys(): string[] {
+  return Object.values(REPORTING_SETTINGS).flatMap((keys) => Object.values(keys));
+}
+
+/**
+ * Reporting options for one measurement. The maximum interval is raised to the minimum
+ * when needed, intervals are limited to the uint16 range (0xFFFF would disable reporting).
+ */
+export function reportingFromSettings(settings: Record<string, any>, measurement: Measurement): ReportingOptions {
+  const keys = REPORTING_SETTINGS[measurement];
+  const minInterval = clampInt(settings[keys.minInterval] ?? ZG227Z_REPORTING_DEFAULTS.MIN_INTERVAL_SECONDS, 0, 0xfffe);
+  const maxInterval = clampInt(settings[keys.maxInterval] ?? ZG227Z_REPORTING_DEFAULTS.MAX_INTERVAL_SECONDS, minInterval, 0xfffe);
+  const minChange = clampInt((settings[keys.minChange] ?? DEFAULT_MIN_CHANGE[measurement]) * 100, 1, 10000);
+  return { minInterval, maxInterval, minChange };
+}
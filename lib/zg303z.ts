@@ -1,17 +1,10 @@
 'use strict';
 
-export function clampNumber(value: number, min: number, max: number): number {
-  if (Number.isNaN(value)) return min;
-  return Math.min(max, Math.max(min, value));
-}
-
-export function clampPercent(value: number): number {
-  return clampNumber(value, 0, 100);
-}
+import {
+  clampInt, clampNumber, clampPercent, fitLine,
+} from './math';
 
-export function clampInt(value: number, min: number, max: number): number {
-  return Math.round(clampNumber(value, min, max));
-}
+export { clampInt, clampNumber, clampPercent };
 
 /**
  * Convert a raw reported temperature to °C.
@@ -27,6 +20,10 @@ export function applyTemperatureCalibrationC(tempC: number, calibrationC: number
   return tempC + calibrationC;
 }
 
+export function applyHumidityCalibrationPercent(humidityPercent: number, calibrationPercent: number): number {
+  return clampPercent(humidityPercent + calibrationPercent);
+}
+
 // Tuya ZG-303Z writable datapoints expect integer formats:
 // - Temperature calibration (DP 104): tenths of °C, range -20..20 (== -2.0..+2.0°C)
 // - Humidity/soil calibration (DP 105/102): integer %, range -30..30
@@ -48,6 +45,24 @@ export function toTuyaSoilWarningThresholdPercent(percent: number): number {
   return clampInt(percent, 0, 100);
 }
 
+// Inverse converters: device-reported DP values back to the user units used in settings.
+// Not clamped: out-of-range or factory values must stay visible to drift detection.
+export function fromTuyaTemperatureCalibrationTenths(tenths: number): number {
+  return tenths / 10;
+}
+
+export function fromTuyaPercentCalibration(value: number): number {
+  return value;
+}
+
+export function fromTuyaSamplingSeconds(seconds: number): number {
+  return seconds;
+}
+
+export function fromTuyaSoilWarningThresholdPercent(percent: number): number {
+  return percent;
+}
+
 /**
  * Exponential moving average with a time-based smoothing factor.
  *
@@ -80,3 +95,265 @@ export function computeWaterAlarmFromSoilMoisture(params: {
   const { soilMoisturePercent, thresholdPercent } = params;
   return soilMoisturePercent < clampPercent(thresholdPercent);
 }
+
+/**
+ * Threshold crossing for "became lower/higher than" flow triggers.
+ *
+ * Only a transition counts: the previous reading must have been on the other side
+ * (or exactly on the threshold). Without a previous reading nothing has crossed.
+ */
+export function crossedBelowThreshold(params: {
+  previous?: number;
+  current: number;
+  threshold: number;
+}): boolean {
+  const { previous, current, threshold } = params;
+  if (typeof previous !== 'number' || Number.isNaN(previous)) return false;
+  return previous >= threshold && current < threshold;
+}
+
+export function crossedAboveThreshold(params: {
+  previous?: number;
+  current: number;
+  threshold: number;
+}): boolean {
+  const { previous, current, threshold } = params;
+  if (typeof previous !== 'number' || Number.isNaN(previous)) return false;
+  return previous <= threshold && current > threshold;
+}
+
+/**
+ * Soil dryness alarm with hysteresis and debounce.
+ *
+ * - The alarm turns on when soil moisture drops below `onThresholdPercent`
+ *   and turns off again once it reaches `offThresholdPercent` (on threshold + hysteresis band).
+ * - A state change must hold for `minConsecutiveReadings` readings and `minDurationMs`
+ *   (measured from the first reading in the new state) before it is applied.
+ *
+ * With no band and no debounce this matches computeWaterAlarmFromSoilMoisture.
+ */
+export type DrynessAlarmOptions = {
+  onThresholdPercent: number;
+  offThresholdPercent: number;
+  minConsecutiveReadings: number;
+  minDurationMs: number;
+};
+
+export type DrynessAlarmState = {
+  alarm: boolean;
+  /** Readings in a row that asked for the opposite state */
+  pendingCount: number;
+  /** Time of the first of those readings */
+  pendingSince?: number;
+};
+
+export function drynessAlarmOptionsFromSettings(params: {
+  thresholdPercent: number;
+  hysteresisPercent?: number;
+  minConsecutiveReadings?: number;
+  minDurationMinutes?: number;
+}): DrynessAlarmOptions {
+  const onThresholdPercent = clampPercent(params.thresholdPercent);
+  return {
+    onThresholdPercent,
+    offThresholdPercent: clampPercent(onThresholdPercent + Math.max(0, params.hysteresisPercent ?? 0)),
+    minConsecutiveReadings: Math.max(1, Math.round(params.minConsecutiveReadings ?? 1)),
+    minDurationMs: Math.max(0, params.minDurationMinutes ?? 0) * 60 * 1000,
+  };
+}
+
+export function updateDrynessAlarm(
+  state: DrynessAlarmState,
+  reading: { soilMoisturePercent: number; at: number },
+  options: DrynessAlarmOptions,
+): DrynessAlarmState {
+  const { soilMoisturePercent, at } = reading;
+  const wanted = state.alarm
+    ? soilMoisturePercent < options.offThresholdPercent
+    : soilMoisturePercent < options.onThresholdPercent;
+
+  if (wanted === state.alarm) return { alarm: state.alarm, pendingCount: 0 };
+
+  const pendingCount = state.pendingCount + 1;
+  const pendingSince = state.pendingCount > 0 && typeof state.pendingSince === 'number' ? state.pendingSince : at;
+  if (pendingCount >= options.minConsecutiveReadings && at - pendingSince >= options.minDurationMs) {
+    return { alarm: wanted, pendingCount: 0 };
+  }
+  return { alarm: state.alarm, pendingCount, pendingSince };
+}
+
+/**
+ * A metric reading with its EMA-smoothed counterpart.
+ */
+export type SmoothedReading = {
+  raw: number;
+  smoothed: number;
+  /** Time of the reading (ms) */
+  at: number;
+};
+
+/**
+ * Feed a raw reading into a metric's EMA (see emaUpdate).
+ *
+ * The first reading passes through unchanged. A reading that is not newer than the previous
+ * one (e.g. after a clock adjustment) does not move the average.
+ */
+export function smoothReading(params: {
+  previous?: SmoothedReading;
+  raw: number;
+  at: number;
+  tauSeconds: number;
+}): SmoothedReading {
+  const { previous, raw, at } = params;
+  if (previous && at <= previous.at) {
+    return { raw, smoothed: previous.smoothed, at: previous.at };
+  }
+
+  const smoothed = emaUpdate({
+    previous: previous?.smoothed,
+    next: raw,
+    dtSeconds: previous ? (at - previous.at) / 1000 : 0,
+    tauSeconds: params.tauSeconds,
+  });
+  return { raw, smoothed, at };
+}
+
+/**
+ * A detected watering: soil moisture rose by `addedPercent` points from `before` to `after`.
+ */
+export type WateringEvent = {
+  /** Time of the reading that showed the rise (ms) */
+  at: number;
+  before: number;
+  after: number;
+  addedPercent: number;
+};
+
+export const WATERING_DEFAULTS = {
+  /** Minimum rise between two readings, in percentage points */
+  MIN_RISE_PERCENT: 10,
+  /** Minimum rate of the rise; slower rises (e.g. after hours offline) are not counted */
+  MIN_RISE_PERCENT_PER_HOUR: 10,
+  /** Rises within this window of the previous watering extend it instead of starting a new one */
+  MERGE_WINDOW_MINUTES: 120,
+} as const;
+
+/**
+ * Detect a watering from two consecutive soil moisture readings, judged by the size and rate of the rise.
+ *
+ * Returns the new event, the extended `lastWatering` when the rise continues a recent watering
+ * (`merged`), or undefined when the rise does not look like watering.
+ */
+export function detectWatering(params: {
+  previous?: { value: number; at: number };
+  current: { value: number; at: number };
+  lastWatering?: WateringEvent;
+  minRisePercent?: number;
+  minRisePercentPerHour?: number;
+  mergeWindowMinutes?: number;
+}): { event: WateringEvent; merged: boolean } | undefined {
+  const { previous, current, lastWatering } = params;
+  if (!previous) return undefined;
+
+  const rise = current.value - previous.value;
+  if (rise < (params.minRisePercent ?? WATERING_DEFAULTS.MIN_RISE_PERCENT)) return undefined;
+
+  const hours = Math.max(0, current.at - previous.at) / 3600000;
+  const minRate = params.minRisePercentPerHour ?? WATERING_DEFAULTS.MIN_RISE_PERCENT_PER_HOUR;
+  if (hours > 0 && rise / hours < minRate) return undefined;
+
+  const mergeWindowMs = (params.mergeWindowMinutes ?? WATERING_DEFAULTS.MERGE_WINDOW_MINUTES) * 60000;
+  if (lastWatering && current.at - lastWatering.at <= mergeWindowMs) {
+    return {
+      event: {
+        at: current.at,
+        before: lastWatering.before,
+        after: current.value,
+        addedPercent: current.value - lastWatering.before,
+      },
+      merged: true,
+    };
+  }
+
+  return {
+    event: {
+      at: current.at,
+      before: previous.value,
+      after: current.value,
+      addedPercent: rise,
+    },
+    merged: false,
+  };
+}
+
+/**
+ * Days elapsed since a timestamp, rounded to one decimal.
+ */
+export function daysSince(at: number, now: number): number {
+  return Math.round((Math.max(0, now - at) / 86400000) * 10) / 10;
+}
+
+export type SoilMoistureSample = { value: number; at: number };
+
+export const DRYING_FORECAST_DEFAULTS = {
+  /** Only the most recent readings are fitted */
+  WINDOW_HOURS: 24,
+  /** A rise of at least this much starts a new drying segment (watering) */
+  JUMP_PERCENT: 5,
+  MIN_SAMPLES: 3,
+  MIN_SPAN_HOURS: 2,
+} as const;
+
+/**
+ * Keep the samples inside the forecast window (plus the newest one), oldest first.
+ */
+export function appendSoilMoistureSample(
+  history: SoilMoistureSample[],
+  sample: SoilMoistureSample,
+  windowHours: number = DRYING_FORECAST_DEFAULTS.WINDOW_HOURS,
+): SoilMoistureSample[] {
+  const since = sample.at - windowHours * 3600000;
+  return history.filter((s) => s.at >= since && s.at < sample.at).concat([sample]);
+}
+
+/**
+ * Estimate the hours until soil moisture drops below the threshold.
+ *
+ * Fits a least-squares line through the readings since the last watering jump
+ * (within the window). Returns 0 when already below the threshold, and undefined
+ * ("unknown") when there is not enough data or the soil is not drying.
+ */
+export function forecastHoursUntilDry(params: {
+  history: SoilMoistureSample[];
+  thresholdPercent: number;
+  jumpPercent?: number;
+  minSamples?: number;
+  minSpanHours?: number;
+}): number | undefined {
+  const { history, thresholdPercent } = params;
+  if (history.length === 0) return undefined;
+
+  const latest = history[history.length - 1];
+  if (latest.value < thresholdPercent) return 0;
+
+  // Only the segment after the last jump describes the current drying trend
+  const jumpPercent = params.jumpPercent ?? DRYING_FORECAST_DEFAULTS.JUMP_PERCENT;
+  let start = 0;
+  for (let i = 1; i < history.length; i++) {
+    if (history[i].value - history[i - 1].value >= jumpPercent) start = i;
+  }
+  const segment = history.slice(start);
+
+  const minSamples = params.minSamples ?? DRYING_FORECAST_DEFAULTS.MIN_SAMPLES;
+  const minSpanHours = params.minSpanHours ?? DRYING_FORECAST_DEFAULTS.MIN_SPAN_HOURS;
+  const spanHours = (latest.at - segment[0].at) / 3600000;
+  if (segment.length < minSamples || spanHours < minSpanHours) return undefined;
+
+  // Least squares: value = intercept + slope * hours
+  const hours = (s: SoilMoistureSample) => (s.at - segment[0].at) / 3600000;
+  const fit = fitLine(segment.map((s) => ({ x: hours(s), y: s.value })));
+  if (!fit || fit.slope >= 0) return undefined;
+
+  const fittedNow = fit.intercept + fit.slope * hours(latest);
+  return Math.max(0, (fittedNow - thresholdPercent) / -fit.slope);
+}
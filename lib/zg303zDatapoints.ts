@@ -1,43 +1,18 @@
 'use strict';
 
-/**
- * Handler types for DP processing
- */
-export type DpHandler = 'temperature' | 'soilMoisture' | 'battery' | 'humidity' | 'waterWarning' | 'setting';
-
-/**
- * DP to handler mapping - handles all known variants in one place
- * This table supports both legacy (3, 5, 15) and Z2M (101, 107, 108) schemes
- */
-export const DP_HANDLERS: Record<number, { handler: DpHandler; divideBy?: number }> = {
-  // Temperature: legacy (5) and Z2M (101), both divide by 10
-  5:   { handler: 'temperature', divideBy: 10 },
-  101: { handler: 'temperature', divideBy: 10 },
-  
-  // Soil Moisture: legacy (3) and Z2M (107)
-  3:   { handler: 'soilMoisture' },
-  107: { handler: 'soilMoisture' },
-  
-  // Battery: legacy (15) and Z2M (108)
-  15:  { handler: 'battery' },
-  108: { handler: 'battery' },
-  
-  // Air Humidity: always 109
-  109: { handler: 'humidity' },
-  
-  // Water Warning: DP 1 (Z2M) and DP 14 (legacy)
-  1:   { handler: 'waterWarning' },
-  14:  { handler: 'waterWarning' },
-  
-  // Settings (echoed back by device)
-  102: { handler: 'setting' },  // soil calibration
-  104: { handler: 'setting' },  // temp calibration
-  105: { handler: 'setting' },  // humidity calibration
-  106: { handler: 'setting' },  // temp unit
-  110: { handler: 'setting' },  // soil warning threshold
-  111: { handler: 'setting' },  // temp sampling interval
-  112: { handler: 'setting' },  // soil sampling interval
-};
+import type { TuyaDatapointDefinition, TuyaDeviceDefinition } from './TuyaZigbeeDevice';
+import { OUTLIER_FILTER_DEFAULTS } from './outlierFilter';
+import { TuyaDataTypes } from './tuyaFrame';
+import {
+  fromTuyaPercentCalibration,
+  fromTuyaSamplingSeconds,
+  fromTuyaSoilWarningThresholdPercent,
+  fromTuyaTemperatureCalibrationTenths,
+  toTuyaPercentCalibration,
+  toTuyaSamplingSeconds,
+  toTuyaSoilWarningThresholdPercent,
+  toTuyaTemperatureCalibrationTenths,
+} from './zg303z';
 
 /**
  * Settings DPs for writing to device
@@ -57,6 +32,108 @@ export const DP_WRITE = {
  */
 export const DEFAULTS = {
   SOIL_WARNING_PERCENT: 30,
+  SOIL_WARNING_HYSTERESIS_PERCENT: 3,
+  SOIL_ALARM_READINGS: 1,
+  SOIL_ALARM_DELAY_MINUTES: 0,
   CALIBRATION: 0,
   SAMPLING_SECONDS: 1800,
 } as const;
+
+const TEMPERATURE: TuyaDatapointDefinition = {
+  name: 'temperature', capability: 'measure_temperature', divideBy: 10, outlierFilter: OUTLIER_FILTER_DEFAULTS.temperature,
+};
+const SOIL_MOISTURE: TuyaDatapointDefinition = {
+  name: 'soilMoisture', capability: 'measure_soil_moisture', min: 0, max: 100, outlierFilter: OUTLIER_FILTER_DEFAULTS.soilMoisture,
+};
+const BATTERY: TuyaDatapointDefinition = {
+  name: 'battery', capability: 'measure_battery', min: 0, max: 100,
+};
+const HUMIDITY: TuyaDatapointDefinition = {
+  name: 'humidity', capability: 'measure_humidity', min: 0, max: 100, outlierFilter: OUTLIER_FILTER_DEFAULTS.humidity,
+};
+const WATER_WARNING: TuyaDatapointDefinition = {
+  name: 'waterWarning', capability: 'alarm_water', fromDevice: (value) => value === 1 || value === true,
+};
+
+/**
+ * ZG-303Z datapoint map.
+ *
+ * Reported DPs support both the legacy (3, 5, 15) and Z2M (101, 107, 108) schemes.
+ * Writable DPs are echoed back by the device and listed in write order;
+ * the echoed values are compared against the settings to detect drift.
+ */
+export const ZG303Z_DEFINITION: TuyaDeviceDefinition = {
+  datapoints: {
+    // Temperature: legacy (5) and Z2M (101), both divide by 10
+    5: TEMPERATURE,
+    101: TEMPERATURE,
+
+    // Soil Moisture: legacy (3) and Z2M (107)
+    3: SOIL_MOISTURE,
+    107: SOIL_MOISTURE,
+
+    // Battery: legacy (15) and Z2M (108)
+    15: BATTERY,
+    108: BATTERY,
+
+    // Air Humidity: always 109
+    109: HUMIDITY,
+
+    // Water Warning: DP 1 (Z2M) and DP 14 (legacy)
+    1: WATER_WARNING,
+    14: WATER_WARNING,
+  },
+  settings: [
+    // Always enforce Celsius
+    { dp: DP_WRITE.TEMP_UNIT, datatype: TuyaDataTypes.ENUM, default: 0 },
+    {
+      dp: DP_WRITE.TEMP_SAMPLING_INTERVAL,
+      datatype: TuyaDataTypes.VALUE,
+      setting: 'temperature_sampling',
+      default: DEFAULTS.SAMPLING_SECONDS,
+      toDevice: toTuyaSamplingSeconds,
+      fromDevice: fromTuyaSamplingSeconds,
+    },
+    {
+      dp: DP_WRITE.SOIL_SAMPLING_INTERVAL,
+      datatype: TuyaDataTypes.VALUE,
+      setting: 'soil_sampling',
+      default: DEFAULTS.SAMPLING_SECONDS,
+      toDevice: toTuyaSamplingSeconds,
+      fromDevice: fromTuyaSamplingSeconds,
+    },
+    {
+      dp: DP_WRITE.SOIL_WARNING_THRESHOLD,
+      datatype: TuyaDataTypes.VALUE,
+      setting: 'soil_warning',
+      default: DEFAULTS.SOIL_WARNING_PERCENT,
+      toDevice: toTuyaSoilWarningThresholdPercent,
+      fromDevice: fromTuyaSoilWarningThresholdPercent,
+    },
+    {
+      dp: DP_WRITE.TEMP_CALIBRATION,
+      datatype: TuyaDataTypes.VALUE,
+      setting: 'temperature_calibration',
+      default: DEFAULTS.CALIBRATION,
+      toDevice: toTuyaTemperatureCalibrationTenths,
+      fromDevice: fromTuyaTemperatureCalibrationTenths,
+    },
+    {
+      dp: DP_WRITE.HUMIDITY_CALIBRATION,
+      datatype: TuyaDataTypes.VALUE,
+      setting: 'humidity_calibration',
+      default: DEFAULTS.CALIBRATION,
+      toDevice: toTuyaPercentCalibration,
+      fromDevice: fromTuyaPercentCalibration,
+    },
+    {
+      dp: DP_WRITE.SOIL_CALIBRATION,
+      datatype: TuyaDataTypes.VALUE,
+      setting: 'soil_calibration',
+      default: DEFAULTS.CALIBRATION,
+      toDevice: toTuyaPercentCalibration,
+      fromDevice: fromTuyaPercentCalibration,
+    },
+  ],
+  reportPeriodSettings: ['temperature_sampling', 'soil_sampling'],
+};
@@ -0,0 +1,120 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  appendBatteryHistory,
+  arbitrateBattery,
+  BATTERY_VOLTAGE_RANGES,
+  createBatteryState,
+  estimateBatteryDaysRemaining,
+  percentFromBatteryPercentageRemaining,
+  percentFromBatteryVoltage,
+  recordBatteryReading,
+  updateBatteryAlarm,
+} = require('../.homeybuild/lib/battery');
+const DeviceBattery = require('../.homeybuild/lib/DeviceBattery').default;
+
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+test('percentFromBatteryPercentageRemaining halves the ZCL value and ignores 0xFF', () => {
+  assert.equal(percentFromBatteryPercentageRemaining(200), 100);
+  assert.equal(percentFromBatteryPercentageRemaining(91), 46);
+  assert.equal(percentFromBatteryPercentageRemaining(0xff), undefined);
+  assert.equal(percentFromBatteryPercentageRemaining(undefined), undefined);
+});
+
+test('percentFromBatteryVoltage maps 100 mV units onto the battery range', () => {
+  assert.equal(percentFromBatteryVoltage(30, BATTERY_VOLTAGE_RANGES.AAA_2), 100);
+  assert.equal(percentFromBatteryVoltage(25, BATTERY_VOLTAGE_RANGES.AAA_2), 50);
+  assert.equal(percentFromBatteryVoltage(19, BATTERY_VOLTAGE_RANGES.AAA_2), 0);
+  assert.equal(percentFromBatteryVoltage(26, BATTERY_VOLTAGE_RANGES.CR2032), 50);
+  assert.equal(percentFromBatteryVoltage(0, BATTERY_VOLTAGE_RANGES.AAA_2), undefined);
+  assert.equal(percentFromBatteryVoltage(0xff, BATTERY_VOLTAGE_RANGES.AAA_2), undefined);
+});
+
+test('arbitrateBattery prefers fresh readings of trusted sources', () => {
+  let state = createBatteryState();
+  assert.equal(arbitrateBattery(state, 0), undefined);
+
+  state = recordBatteryReading(state, 'voltage', { percent: 60, at: 10 * DAY });
+  state = recordBatteryReading(state, 'percentage', { percent: 80, at: 9 * DAY });
+  assert.deepEqual(arbitrateBattery(state, 10 * DAY), { source: 'percentage', percent: 80 });
+
+  state = recordBatteryReading(state, 'tuya', { percent: 70, at: 10 * DAY });
+  assert.deepEqual(arbitrateBattery(state, 10 * DAY), { source: 'tuya', percent: 70 });
+
+  // All readings stale: the most recent one is used
+  assert.deepEqual(arbitrateBattery(state, 20 * DAY), { source: 'tuya', percent: 70 });
+  state = recordBatteryReading(state, 'voltage', { percent: 55, at: 19 * DAY });
+  assert.deepEqual(arbitrateBattery(state, 20 * DAY), { source: 'voltage', percent: 55 });
+});
+
+test('updateBatteryAlarm turns on below the threshold and off above the hysteresis', () => {
+  const levels = [30, 20, 19, 22, 24, 25, 21];
+  let alarm = false;
+  const alarms = levels.map((percent) => {
+    alarm = updateBatteryAlarm(alarm, percent, 20);
+    return alarm;
+  });
+  assert.deepEqual(alarms, [false, false, true, true, true, false, false]);
+});
+
+test('appendBatteryHistory samples per interval and restarts after a battery swap', () => {
+  let history = [];
+  history = appendBatteryHistory(history, { percent: 30, at: 0 });
+  history = appendBatteryHistory(history, { percent: 29, at: HOUR });
+  assert.equal(history.length, 1);
+  history = appendBatteryHistory(history, { percent: 28, at: 7 * HOUR });
+  assert.deepEqual(history.map((r) => r.percent), [30, 28]);
+
+  history = appendBatteryHistory(history, { percent: 100, at: 8 * HOUR });
+  assert.deepEqual(history, [{ percent: 100, at: 8 * HOUR }]);
+});
+
+test('estimateBatteryDaysRemaining extrapolates the discharge trend', () => {
+  const history = [];
+  for (let day = 0; day <= 10; day++) history.push({ percent: 80 - day, at: day * DAY });
+  assert.equal(Math.round(estimateBatteryDaysRemaining(history)), 70);
+
+  assert.equal(estimateBatteryDaysRemaining(history.slice(0, 5)), undefined);
+  const flat = history.map((r) => ({ percent: 80, at: r.at }));
+  assert.equal(estimateBatteryDaysRemaining(flat), undefined);
+});
+
+test('DeviceBattery only adds to the history for new readings', (t) => {
+  const store = {};
+  const capabilities = {};
+  const device = {
+    getStoreValue: (key) => store[key],
+    setStoreValue: async (key, value) => {
+      store[key] = value;
+    },
+    getSetting: () => undefined,
+    hasCapability: () => true,
+    setCapabilityValue: async (capability, value) => {
+      capabilities[capability] = value;
+    },
+    log: () => {},
+    error: () => {},
+  };
+  let now = 0;
+  t.mock.method(Date, 'now', () => now);
+  const battery = new DeviceBattery(device, BATTERY_VOLTAGE_RANGES.AAA_2);
+
+  battery.reportPercentageRemaining(120);
+  assert.equal(store.battery.history.length, 1);
+
+  // Alarm flags and setting changes republish the (now stale) level without adding samples
+  now += 2 * DAY;
+  battery.setDeviceLowBattery(true);
+  battery.update(20);
+  assert.equal(store.battery.history.length, 1);
+  assert.equal(capabilities.alarm_battery, true);
+  assert.equal(capabilities.measure_battery, 60);
+
+  battery.reportPercentageRemaining(110);
+  assert.deepEqual(store.battery.history.map((r) => r.percent), [60, 55]);
+});
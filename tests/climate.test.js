@@ -0,0 +1,61 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  absoluteHumidityGm3,
+  computeClimateMetrics,
+  dewPointC,
+  saturationVapourPressureKpa,
+  updateVpdAlarm,
+  vapourPressureDeficitKpa,
+} = require('../.homeybuild/lib/climate');
+
+function assertClose(actual, expected, tolerance) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+}
+
+test('saturationVapourPressureKpa matches reference values', () => {
+  assertClose(saturationVapourPressureKpa(0), 0.611, 0.002);
+  assertClose(saturationVapourPressureKpa(20), 2.339, 0.01);
+  assertClose(saturationVapourPressureKpa(30), 4.246, 0.02);
+});
+
+test('dewPointC matches reference values and equals the temperature at saturation', () => {
+  assertClose(dewPointC(20, 50), 9.3, 0.1);
+  assertClose(dewPointC(25, 60), 16.7, 0.1);
+  assertClose(dewPointC(-5, 80), -7.9, 0.2);
+  assertClose(dewPointC(18, 100), 18, 1e-9);
+  assert.equal(dewPointC(20, 0), undefined);
+});
+
+test('absoluteHumidityGm3 matches reference values', () => {
+  assertClose(absoluteHumidityGm3(20, 50), 8.6, 0.1);
+  assertClose(absoluteHumidityGm3(30, 100), 30.4, 0.2);
+});
+
+test('vapourPressureDeficitKpa is zero at saturation and grows with dryness', () => {
+  assertClose(vapourPressureDeficitKpa(25, 100), 0, 1e-9);
+  assertClose(vapourPressureDeficitKpa(25, 60), 1.27, 0.01);
+  assert.ok(vapourPressureDeficitKpa(25, 40) > vapourPressureDeficitKpa(25, 60));
+});
+
+test('computeClimateMetrics rounds and rejects missing or invalid inputs', () => {
+  assert.deepEqual(computeClimateMetrics(20, 50), { dewPointC: 9.3, absoluteHumidityGm3: 8.6, vpdKpa: 1.17 });
+  assert.equal(computeClimateMetrics(undefined, 50), undefined);
+  assert.equal(computeClimateMetrics(20, null), undefined);
+  assert.equal(computeClimateMetrics(20, 0), undefined);
+  assert.equal(computeClimateMetrics(20, 120), undefined);
+});
+
+test('updateVpdAlarm turns on outside the bounds and off inside the hysteresis margin', () => {
+  const bounds = { minKpa: 0.4, maxKpa: 1.6, hysteresisKpa: 0.1 };
+  const vpds = [1.0, 1.7, 1.55, 1.5, 0.35, 0.45, 0.5];
+  let alarm = false;
+  const alarms = vpds.map((vpd) => {
+    alarm = updateVpdAlarm(alarm, vpd, bounds);
+    return alarm;
+  });
+  assert.deepEqual(alarms, [false, true, true, false, true, true, false]);
+});
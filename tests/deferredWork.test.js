@@ -0,0 +1,72 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { zclFrames } = require('zigbee-clusters');
+
+const DeferredWorkQueue = require('../.homeybuild/lib/deferredWork').default;
+const { TuyaSpecificCluster, TUYA_CMD } = require('../.homeybuild/lib/TuyaCluster');
+
+function createCluster() {
+  const frames = [];
+  const cluster = new TuyaSpecificCluster({
+    sendFrame: async (clusterId, frame) => frames.push(zclFrames.ZCLStandardHeader.fromBuffer(frame)),
+  });
+  return { cluster, frames };
+}
+
+test('dataQuery is sent as cluster-specific command 0x03 without payload', async () => {
+  const { cluster, frames } = createCluster();
+  await cluster.queryData();
+  assert.equal(frames.length, 1);
+  assert.equal(frames[0].cmdId, TUYA_CMD.DATA_QUERY);
+  assert.equal(frames[0].frameControl.clusterSpecific, true);
+  assert.equal(frames[0].frameControl.disableDefaultResponse, true);
+  assert.equal(frames[0].data.length, 0);
+});
+
+test('a deferred data query is only sent when the queue runs', async () => {
+  const { cluster, frames } = createCluster();
+  const queue = new DeferredWorkQueue();
+  let queried = false;
+  queue.defer('data query', async () => {
+    await cluster.queryData();
+    queried = true;
+  });
+
+  assert.equal(frames.length, 0);
+  assert.equal(queried, false);
+
+  await queue.run();
+  assert.equal(frames.length, 1);
+  assert.equal(frames[0].cmdId, TUYA_CMD.DATA_QUERY);
+  assert.equal(queried, true);
+  assert.equal(queue.size, 0);
+});
+
+test('deferred work that fails or resolves to false stays queued', async () => {
+  const queue = new DeferredWorkQueue();
+  let attempts = 0;
+  queue.defer('flaky', async () => {
+    attempts++;
+    if (attempts === 1) throw new Error('asleep');
+    return attempts >= 3;
+  });
+
+  await queue.run();
+  await queue.run();
+  assert.equal(queue.has('flaky'), true);
+  await queue.run();
+  assert.equal(queue.has('flaky'), false);
+  assert.equal(attempts, 3);
+});
+
+test('work queued under the same name replaces the earlier work', async () => {
+  const queue = new DeferredWorkQueue();
+  const ran = [];
+  queue.defer('config', async () => ran.push('old'));
+  queue.defer('config', async () => ran.push('new'));
+  await queue.run();
+  assert.deepEqual(ran, ['new']);
+});
@@ -0,0 +1,75 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  DEVICE_INFO_SETTINGS,
+  formatTuyaMcuVersion,
+  missingBasicInfoAttributes,
+  readBasicInfo,
+  toDeviceInfoSettings,
+} = require('../.homeybuild/lib/deviceInfo');
+
+test('formatTuyaMcuVersion decodes major.minor.patch bits', () => {
+  assert.equal(formatTuyaMcuVersion(0x40), '1.0.0');
+  assert.equal(formatTuyaMcuVersion(0x4a), '1.0.10');
+  assert.equal(formatTuyaMcuVersion(0x59), '1.1.9');
+  assert.equal(formatTuyaMcuVersion(0xff), '3.3.15');
+});
+
+test('toDeviceInfoSettings maps reported attributes and skips missing ones', () => {
+  assert.deepEqual(toDeviceInfoSettings({
+    manufacturerName: 'HOBEIAN',
+    modelId: 'ZG-303Z ',
+    appVersion: 72,
+    swBuildId: '',
+    powerSource: 'battery',
+    zclVersion: 3,
+  }), {
+    info_manufacturer_name: 'HOBEIAN',
+    info_model_id: 'ZG-303Z',
+    info_app_version: '72',
+    info_power_source: 'battery',
+  });
+});
+
+test('missingBasicInfoAttributes lists attributes without a stored label', () => {
+  const stored = { [DEVICE_INFO_SETTINGS.manufacturerName]: 'HOBEIAN', [DEVICE_INFO_SETTINGS.swBuildId]: '' };
+  assert.deepEqual(
+    missingBasicInfoAttributes((key) => stored[key]),
+    ['modelId', 'appVersion', 'swBuildId', 'powerSource'],
+  );
+});
+
+test('readBasicInfo falls back to the next endpoint with a Basic cluster', async () => {
+  const requested = [];
+  const zclNode = {
+    endpoints: {
+      1: {
+        clusters: {
+          basic: {
+            readAttributes: async () => {
+              throw new Error('Timeout');
+            },
+          },
+        },
+      },
+      2: { clusters: {} },
+      3: {
+        clusters: {
+          basic: {
+            readAttributes: async (attributes) => {
+              requested.push(...attributes);
+              return { modelId: 'ZG-222Z' };
+            },
+          },
+        },
+      },
+    },
+  };
+
+  assert.deepEqual(await readBasicInfo(zclNode, ['modelId']), { modelId: 'ZG-222Z' });
+  assert.deepEqual(requested, ['modelId']);
+  await assert.rejects(readBasicInfo({ endpoints: {} }), /Basic cluster not available/);
+});
@@ -0,0 +1,82 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  allocateZoneId,
+  normalizeIeeeAddress,
+  planEnrollment,
+  shouldForgetCieAddress,
+} = require('../.homeybuild/lib/iasEnrollment');
+
+const HOMEY = '00:17:88:01:0b:2c:4d:5e';
+const OTHER_HUB = '00:12:4b:00:1c:aa:bb:cc';
+
+test('normalizeIeeeAddress accepts the common notations and rejects unset addresses', () => {
+  assert.equal(normalizeIeeeAddress('00:17:88:01:0B:2C:4D:5E'), HOMEY);
+  assert.equal(normalizeIeeeAddress('0x001788010b2c4d5e'), HOMEY);
+  assert.equal(normalizeIeeeAddress('00:00:00:00:00:00:00:00'), undefined);
+  assert.equal(normalizeIeeeAddress('ff:ff:ff:ff:ff:ff:ff:ff'), undefined);
+  assert.equal(normalizeIeeeAddress('00:17:88'), undefined);
+  assert.equal(normalizeIeeeAddress(undefined), undefined);
+});
+
+test('allocateZoneId picks the lowest free zone ID', () => {
+  assert.equal(allocateZoneId([]), 0);
+  assert.equal(allocateZoneId([0, 1, undefined, 3]), 2);
+});
+
+test('an enrolled device pointing at the known CIE is left alone', () => {
+  assert.deepEqual(
+    planEnrollment({ zoneState: 'enrolled', iasCIEAddress: HOMEY, zoneId: 4 }, HOMEY, false),
+    { learnCieAddress: undefined, writeCieAddress: undefined, enroll: false },
+  );
+});
+
+test('the CIE address is learned from an enrolled device that just reported to Homey', () => {
+  assert.deepEqual(
+    planEnrollment({ zoneState: 'enrolled', iasCIEAddress: HOMEY }, undefined, true),
+    { learnCieAddress: HOMEY, writeCieAddress: undefined, enroll: false },
+  );
+});
+
+test('the CIE address is not learned from an enrolled device that was not heard from', () => {
+  // It may still be enrolled with the hub it was paired to before
+  assert.deepEqual(
+    planEnrollment({ zoneState: 'enrolled', iasCIEAddress: OTHER_HUB }, undefined, false),
+    { learnCieAddress: undefined, writeCieAddress: undefined, enroll: false },
+  );
+});
+
+test('a device that is not enrolled gets the CIE address and an enroll response', () => {
+  assert.deepEqual(
+    planEnrollment({ zoneState: 'notEnrolled', iasCIEAddress: '00:00:00:00:00:00:00:00' }, HOMEY, false),
+    { learnCieAddress: undefined, writeCieAddress: HOMEY, enroll: true },
+  );
+});
+
+test('a device enrolled with another CIE is re-enrolled', () => {
+  assert.deepEqual(
+    planEnrollment({ zoneState: 'enrolled', iasCIEAddress: OTHER_HUB }, HOMEY, false),
+    { learnCieAddress: undefined, writeCieAddress: HOMEY, enroll: true },
+  );
+});
+
+test('without a known CIE address a device that is not enrolled still gets an enroll response', () => {
+  assert.deepEqual(
+    planEnrollment({ zoneState: 'notEnrolled', iasCIEAddress: HOMEY }, undefined, true),
+    { learnCieAddress: undefined, writeCieAddress: undefined, enroll: true },
+  );
+});
+
+test('a learned CIE address is forgotten when a device does not enroll with it', () => {
+  const plan = planEnrollment({ zoneState: 'notEnrolled', iasCIEAddress: OTHER_HUB }, HOMEY, false);
+  assert.equal(shouldForgetCieAddress(plan, HOMEY, 'notEnrolled'), true);
+  assert.equal(shouldForgetCieAddress(plan, HOMEY, 'enrolled'), false);
+
+  // Nothing was written: the address was not tried
+  const waiting = planEnrollment({ zoneState: 'notEnrolled', iasCIEAddress: HOMEY }, HOMEY, false);
+  assert.equal(shouldForgetCieAddress(waiting, HOMEY, 'notEnrolled'), false);
+  assert.equal(shouldForgetCieAddress(waiting, undefined, 'notEnrolled'), false);
+});
@@ -0,0 +1,70 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { ZCLDataTypes } = require('zigbee-clusters');
+
+const {
+  activeZoneStatusBits,
+  changedZoneStatusBits,
+  decodeZoneStatus,
+  decodeZoneStatusNotification,
+  isSupervisionReport,
+} = require('../.homeybuild/lib/iasZoneStatus');
+
+// Same bitmap type as the IAS Zone cluster in zigbee-clusters
+const ZONE_STATUS = ZCLDataTypes.map16(
+  'alarm1', 'alarm2', 'tamper', 'battery', 'supervisionReports', 'restoreReports', 'trouble', 'acMains', 'test', 'batteryDefect',
+);
+
+function bitmap(value) {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value, 0);
+  return ZONE_STATUS.fromBuffer(buffer, 0);
+}
+
+test('decodeZoneStatus reads every bit from a number', () => {
+  assert.deepEqual(activeZoneStatusBits(decodeZoneStatus(0x0001)), ['alarm1']);
+  assert.deepEqual(
+    activeZoneStatusBits(decodeZoneStatus(0x03fe)),
+    ['alarm2', 'tamper', 'battery', 'supervisionReports', 'restoreReports', 'trouble', 'acMains', 'test', 'batteryDefect'],
+  );
+});
+
+test('decodeZoneStatus reads a zigbee-clusters bitmap', () => {
+  const status = decodeZoneStatus(bitmap(0x0231));
+  assert.deepEqual(activeZoneStatusBits(status), ['alarm1', 'supervisionReports', 'restoreReports', 'batteryDefect']);
+  assert.equal(status.tamper, false);
+});
+
+test('decodeZoneStatus treats missing input as all clear', () => {
+  assert.deepEqual(activeZoneStatusBits(decodeZoneStatus(undefined)), []);
+  assert.deepEqual(activeZoneStatusBits(decodeZoneStatus('0x01')), []);
+});
+
+test('decodeZoneStatusNotification converts the delay from quarter seconds', () => {
+  const notification = decodeZoneStatusNotification({
+    zoneStatus: 0x0009, extendedStatus: 0, zoneId: 3, delay: 8,
+  });
+  assert.deepEqual(activeZoneStatusBits(notification.status), ['alarm1', 'battery']);
+  assert.equal(notification.zoneId, 3);
+  assert.equal(notification.delayMs, 2000);
+
+  const read = decodeZoneStatusNotification({ zoneStatus: 0 });
+  assert.equal(read.zoneId, undefined);
+  assert.equal(read.delayMs, 0);
+  assert.equal(read.extendedStatus, 0);
+});
+
+test('changedZoneStatusBits lists flipped bits', () => {
+  assert.deepEqual(changedZoneStatusBits(undefined, decodeZoneStatus(0x0005)), ['alarm1', 'tamper']);
+  assert.deepEqual(changedZoneStatusBits(decodeZoneStatus(0x0005), decodeZoneStatus(0x0044)), ['alarm1', 'trouble']);
+});
+
+test('isSupervisionReport needs the supervision bit and an unchanged status', () => {
+  const supervised = decodeZoneStatus(0x0030);
+  assert.equal(isSupervisionReport(supervised, decodeZoneStatus(0x0030)), true);
+  assert.equal(isSupervisionReport(undefined, supervised), false);
+  assert.equal(isSupervisionReport(supervised, decodeZoneStatus(0x0031)), false);
+  assert.equal(isSupervisionReport(decodeZoneStatus(0), decodeZoneStatus(0)), false);
+});
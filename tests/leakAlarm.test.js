@@ -0,0 +1,119 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  acknowledgeLeak,
+  createLeakAlarmState,
+  leakAlarmOptionsFromSettings,
+  leakDurationMinutes,
+  nextLeakAlarmCheckMs,
+  tickLeakAlarm,
+  updateLeakSensor,
+} = require('../.homeybuild/lib/leakAlarm');
+
+const MINUTE = 60 * 1000;
+
+const FOLLOW = { latching: false, autoClearMs: 0, renotifyMs: 0 };
+const LATCH = { latching: true, autoClearMs: 0, renotifyMs: 0 };
+
+test('leakAlarmOptionsFromSettings converts minutes and defaults to following the sensor', () => {
+  assert.deepEqual(leakAlarmOptionsFromSettings({}), FOLLOW);
+  assert.deepEqual(
+    leakAlarmOptionsFromSettings({ leak_latching: true, leak_auto_clear: 30, leak_renotify: 10 }),
+    { latching: true, autoClearMs: 30 * MINUTE, renotifyMs: 10 * MINUTE },
+  );
+});
+
+test('without latching the alarm follows the sensor', () => {
+  const started = updateLeakSensor(createLeakAlarmState(), true, 0, FOLLOW);
+  assert.equal(started.event, 'started');
+  assert.equal(started.state.active, true);
+  assert.equal(started.state.startedAt, 0);
+
+  const again = updateLeakSensor(started.state, true, 1000, FOLLOW);
+  assert.equal(again.event, undefined);
+  assert.equal(again.state.startedAt, 0);
+
+  const dry = updateLeakSensor(again.state, false, 2000, FOLLOW);
+  assert.equal(dry.event, 'cleared');
+  assert.equal(dry.state.active, false);
+});
+
+test('a short splash stays visible for the auto-clear delay', () => {
+  const options = { latching: false, autoClearMs: 5 * MINUTE, renotifyMs: 0 };
+  let { state } = updateLeakSensor(createLeakAlarmState(), true, 0, options);
+  ({ state } = updateLeakSensor(state, false, 1000, options));
+  assert.equal(state.active, true);
+  assert.equal(state.dryAt, 1000);
+  assert.equal(nextLeakAlarmCheckMs(state, 1000, options), 5 * MINUTE);
+
+  assert.equal(tickLeakAlarm(state, 4 * MINUTE, options).event, undefined);
+  const cleared = tickLeakAlarm(state, 1000 + 5 * MINUTE, options);
+  assert.equal(cleared.event, 'cleared');
+  assert.equal(cleared.state.active, false);
+});
+
+test('a latched alarm stays on until acknowledged', () => {
+  let { state } = updateLeakSensor(createLeakAlarmState(), true, 0, LATCH);
+  ({ state } = updateLeakSensor(state, false, 1000, LATCH));
+  assert.equal(state.active, true);
+  assert.equal(nextLeakAlarmCheckMs(state, 1000, LATCH), undefined);
+  assert.equal(tickLeakAlarm(state, 24 * 60 * MINUTE, LATCH).state.active, true);
+
+  const acknowledged = acknowledgeLeak(state);
+  assert.equal(acknowledged.event, 'cleared');
+  assert.equal(acknowledged.state.active, false);
+});
+
+test('a latched alarm auto-clears after the delay once dry', () => {
+  const options = { latching: true, autoClearMs: 30 * MINUTE, renotifyMs: 0 };
+  let { state } = updateLeakSensor(createLeakAlarmState(), true, 0, options);
+  assert.equal(nextLeakAlarmCheckMs(state, 0, options), undefined);
+
+  ({ state } = updateLeakSensor(state, false, 10 * MINUTE, options));
+  // Wet again restarts the dry time
+  ({ state } = updateLeakSensor(state, true, 20 * MINUTE, options));
+  ({ state } = updateLeakSensor(state, false, 25 * MINUTE, options));
+  assert.equal(tickLeakAlarm(state, 50 * MINUTE, options).state.active, true);
+  assert.equal(tickLeakAlarm(state, 55 * MINUTE, options).event, 'cleared');
+});
+
+test('acknowledging while still wet keeps the alarm but stops reminders, and it clears when dry', () => {
+  const options = { latching: true, autoClearMs: 0, renotifyMs: 10 * MINUTE };
+  let { state } = updateLeakSensor(createLeakAlarmState(), true, 0, options);
+  const acknowledged = acknowledgeLeak(state);
+  assert.equal(acknowledged.event, undefined);
+  assert.equal(acknowledged.state.active, true);
+  assert.equal(acknowledged.state.acknowledged, true);
+  ({ state } = acknowledged);
+
+  assert.equal(nextLeakAlarmCheckMs(state, MINUTE, options), undefined);
+  assert.equal(tickLeakAlarm(state, 60 * MINUTE, options).event, undefined);
+  assert.equal(updateLeakSensor(state, false, 61 * MINUTE, options).event, 'cleared');
+});
+
+test('reminders repeat at the interval while the alarm is on', () => {
+  const options = { latching: true, autoClearMs: 0, renotifyMs: 10 * MINUTE };
+  let { state } = updateLeakSensor(createLeakAlarmState(), true, 0, options);
+  assert.equal(nextLeakAlarmCheckMs(state, 0, options), 10 * MINUTE);
+  assert.equal(tickLeakAlarm(state, 9 * MINUTE, options).event, undefined);
+
+  const reminder = tickLeakAlarm(state, 10 * MINUTE, options);
+  assert.equal(reminder.event, 'still_active');
+  ({ state } = reminder);
+  assert.equal(leakDurationMinutes(state, 10 * MINUTE), 10);
+  assert.equal(nextLeakAlarmCheckMs(state, 10 * MINUTE, options), 10 * MINUTE);
+});
+
+test('turning latching off clears a latched alarm on the next check', () => {
+  let { state } = updateLeakSensor(createLeakAlarmState(), true, 0, LATCH);
+  ({ state } = updateLeakSensor(state, false, 1000, LATCH));
+  assert.equal(tickLeakAlarm(state, 2000, FOLLOW).event, 'cleared');
+});
+
+test('acknowledging without an active alarm does nothing', () => {
+  const state = createLeakAlarmState();
+  assert.deepEqual(acknowledgeLeak(state), { state });
+});
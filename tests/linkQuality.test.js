@@ -0,0 +1,18 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { linkQualityFromFrameMeta } = require('../.homeybuild/lib/linkQuality');
+
+test('linkQualityFromFrameMeta reads LQI and RSSI', () => {
+  assert.deepEqual(linkQualityFromFrameMeta({ lqi: 180, rssi: -67 }), { lqi: 180, rssi: -67 });
+  assert.deepEqual(linkQualityFromFrameMeta({ linkQuality: 92 }), { lqi: 92, rssi: undefined });
+});
+
+test('linkQualityFromFrameMeta leaves out missing and out-of-range values', () => {
+  assert.deepEqual(linkQualityFromFrameMeta(undefined), {});
+  assert.deepEqual(linkQualityFromFrameMeta({ groupId: 1 }), { lqi: undefined, rssi: undefined });
+  assert.deepEqual(linkQualityFromFrameMeta({ lqi: 300, rssi: -200 }), { lqi: undefined, rssi: undefined });
+  assert.deepEqual(linkQualityFromFrameMeta({ lqi: Number.NaN, rssi: '-60' }), { lqi: undefined, rssi: undefined });
+});
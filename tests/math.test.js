@@ -0,0 +1,12 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { fitLine } = require('../.homeybuild/lib/math');
+
+test('fitLine fits a least-squares line', () => {
+  assert.deepEqual(fitLine([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }]), { slope: 2, intercept: 1 });
+  assert.equal(fitLine([{ x: 0, y: 1 }]), undefined);
+  assert.equal(fitLine([{ x: 1, y: 1 }, { x: 1, y: 2 }]), undefined);
+});
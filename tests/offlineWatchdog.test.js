@@ -0,0 +1,156 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  default: OfflineWatchdog,
+  expectedReportPeriodMs,
+  formatLastSeen,
+  offlineAfterMs,
+  watchIncomingFrames,
+} = require('../.homeybuild/lib/offlineWatchdog');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Manual clock with setTimeout/clearTimeout in the shape of this.homey
+function fakeClock(start = 0) {
+  const clock = {
+    now: start,
+    timers: [],
+    setTimeout(callback, ms) {
+      const timer = { at: clock.now + ms, callback };
+      clock.timers.push(timer);
+      return timer;
+    },
+    clearTimeout(timer) {
+      clock.timers = clock.timers.filter((t) => t !== timer);
+    },
+    advance(ms) {
+      const until = clock.now + ms;
+      for (;;) {
+        const due = clock.timers.filter((t) => t.at <= until).sort((a, b) => a.at - b.at)[0];
+        if (!due) break;
+        clock.timers = clock.timers.filter((t) => t !== due);
+        clock.now = due.at;
+        due.callback();
+      }
+      clock.now = until;
+    },
+  };
+  return clock;
+}
+
+function createWatchdog(clock) {
+  const events = [];
+  const watchdog = new OfflineWatchdog(clock, (event) => events.push(event), () => clock.now);
+  return { watchdog, events };
+}
+
+test('expectedReportPeriodMs takes the longest valid interval', () => {
+  assert.equal(expectedReportPeriodMs([1800, 3600]), 3600 * 1000);
+  assert.equal(expectedReportPeriodMs([undefined, 600, 0]), 600 * 1000);
+  assert.equal(expectedReportPeriodMs([]), undefined);
+});
+
+test('offlineAfterMs multiplies the period and is off for 0 missed periods', () => {
+  assert.equal(offlineAfterMs(HOUR, 3), 3 * HOUR);
+  assert.equal(offlineAfterMs(HOUR, 0), undefined);
+  assert.equal(offlineAfterMs(undefined, 3), undefined);
+});
+
+test('formatLastSeen applies the timezone offset', () => {
+  const at = Date.UTC(2026, 0, 31, 13, 5, 42);
+  assert.equal(formatLastSeen(at, 0), '2026-01-31 13:05');
+  assert.equal(formatLastSeen(at, 60), '2026-01-31 14:05');
+  assert.equal(formatLastSeen(at, -14 * 60), '2026-01-30 23:05');
+});
+
+test('watchdog fires once after the silence and recovers on the next frame', () => {
+  const clock = fakeClock();
+  const { watchdog, events } = createWatchdog(clock);
+  watchdog.start(3 * HOUR);
+
+  clock.advance(2 * HOUR);
+  assert.equal(watchdog.seen(), false);
+  clock.advance(2.5 * HOUR);
+  assert.equal(events.length, 0);
+
+  clock.advance(HOUR);
+  assert.deepEqual(events, [{ lastSeen: 2 * HOUR, silentMs: 3 * HOUR }]);
+  assert.equal(watchdog.offline, true);
+
+  clock.advance(10 * HOUR);
+  assert.equal(events.length, 1);
+
+  assert.equal(watchdog.seen(), true);
+  assert.equal(watchdog.offline, false);
+  assert.equal(watchdog.lastSeen, 15.5 * HOUR);
+});
+
+test('watchdog continues from the persisted last seen after a restart', () => {
+  const clock = fakeClock(10 * HOUR);
+  const { watchdog, events } = createWatchdog(clock);
+  watchdog.start(3 * HOUR, 8 * HOUR);
+
+  clock.advance(HOUR - 1);
+  assert.equal(events.length, 0);
+  clock.advance(1);
+  assert.deepEqual(events, [{ lastSeen: 8 * HOUR, silentMs: 3 * HOUR }]);
+});
+
+test('watchdog can be disabled, re-armed and stopped', () => {
+  const clock = fakeClock();
+  const { watchdog, events } = createWatchdog(clock);
+  watchdog.start(undefined);
+  clock.advance(100 * HOUR);
+  assert.equal(events.length, 0);
+
+  watchdog.start(HOUR);
+  watchdog.stop();
+  clock.advance(100 * HOUR);
+  assert.equal(events.length, 0);
+  assert.equal(clock.timers.length, 0);
+});
+
+test('watchdog splits timeouts longer than the timer limit', () => {
+  const clock = fakeClock();
+  const { watchdog, events } = createWatchdog(clock);
+  watchdog.start(40 * 24 * HOUR);
+
+  clock.advance(30 * 24 * HOUR);
+  assert.equal(events.length, 0);
+  clock.advance(10 * 24 * HOUR);
+  assert.equal(events.length, 1);
+});
+
+test('watchIncomingFrames sees frames of every endpoint and keeps the original handler', () => {
+  const handled = [];
+  // The ZCLNode installs its handler on the ZigBeeNode
+  const node = {
+    handleFrame(endpointId, clusterId, frame) {
+      handled.push([endpointId, clusterId, frame.length]);
+      return 'handled';
+    },
+  };
+  const seen = [];
+  watchIncomingFrames(node, (endpointId, clusterId, meta) => seen.push([endpointId, clusterId, meta]));
+
+  assert.equal(node.handleFrame(1, 0x0402, Buffer.alloc(3), { lqi: 180 }), 'handled');
+  node.handleFrame(2, 0x0500, Buffer.alloc(1), {});
+  assert.deepEqual(seen, [[1, 0x0402, { lqi: 180 }], [2, 0x0500, {}]]);
+  assert.deepEqual(handled, [[1, 0x0402, 3], [2, 0x0500, 1]]);
+});
+
+test('watching a node again replaces the previous listener', () => {
+  const node = { handleFrame: () => {} };
+  const first = [];
+  const second = [];
+  watchIncomingFrames(node, (endpointId) => first.push(endpointId));
+  watchIncomingFrames(node, (endpointId) => second.push(endpointId));
+
+  node.handleFrame(1, 0x0402, Buffer.alloc(1), {});
+  assert.deepEqual(first, []);
+  assert.deepEqual(second, [1]);
+});
@@ -0,0 +1,73 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  createOutlierFilterState,
+  filterOutlier,
+  isPlausibleChange,
+  OUTLIER_FILTER_DEFAULTS,
+} = require('../.homeybuild/lib/outlierFilter');
+
+const MINUTE = 60 * 1000;
+const options = {
+  min: 0, max: 100, maxDelta: 10, maxRatePerMinute: 0.1,
+};
+
+function run(samples, filterOptions = options) {
+  let state = createOutlierFilterState();
+  const accepted = samples.map(([value, at]) => {
+    const result = filterOutlier(state, { value, at }, filterOptions);
+    state = result.state;
+    return result.accepted;
+  });
+  return { accepted, state };
+}
+
+test('isPlausibleChange allows maxDelta plus the rate over the elapsed time', () => {
+  assert.equal(isPlausibleChange({ value: 40, at: 0 }, { value: 50, at: 0 }, options), true);
+  assert.equal(isPlausibleChange({ value: 40, at: 0 }, { value: 51, at: 0 }, options), false);
+  assert.equal(isPlausibleChange({ value: 40, at: 0 }, { value: 27, at: 30 * MINUTE }, options), true);
+  assert.equal(isPlausibleChange({ value: 40, at: 0 }, { value: 26, at: 30 * MINUTE }, options), false);
+});
+
+test('filterOutlier accepts the first sample and gradual changes', () => {
+  const { accepted, state } = run([[40, 0], [38, 30 * MINUTE], [35, 60 * MINUTE]]);
+  assert.deepEqual(accepted, [true, true, true]);
+  assert.equal(state.rejected, 0);
+  assert.deepEqual(state.lastAccepted, { value: 35, at: 60 * MINUTE });
+});
+
+test('filterOutlier drops a one-off spike and keeps the previous baseline', () => {
+  const { accepted, state } = run([[40, 0], [0, 30 * MINUTE], [39, 60 * MINUTE]]);
+  assert.deepEqual(accepted, [true, false, true]);
+  assert.equal(state.rejected, 1);
+  assert.equal(state.candidate, undefined);
+});
+
+test('filterOutlier accepts a step change once the next sample confirms it', () => {
+  // Watering: 25% -> 70% and it stays there
+  const { accepted, state } = run([[25, 0], [70, 30 * MINUTE], [71, 60 * MINUTE], [69, 90 * MINUTE]]);
+  assert.deepEqual(accepted, [true, false, true, true]);
+  assert.equal(state.rejected, 1);
+  assert.deepEqual(state.lastAccepted, { value: 69, at: 90 * MINUTE });
+});
+
+test('filterOutlier rejects samples outside the plausible range', () => {
+  const result = filterOutlier(createOutlierFilterState(), { value: -40, at: 0 }, OUTLIER_FILTER_DEFAULTS.temperature);
+  assert.equal(result.accepted, false);
+  assert.equal(result.reason, 'range');
+  assert.equal(result.state.rejected, 1);
+  assert.equal(result.state.lastAccepted, undefined);
+});
+
+test('filterOutlier reports rate rejections and counts them', () => {
+  let state = createOutlierFilterState();
+  state = filterOutlier(state, { value: 21.5, at: 0 }, OUTLIER_FILTER_DEFAULTS.temperature).state;
+  const result = filterOutlier(state, { value: -20, at: 10 * MINUTE }, OUTLIER_FILTER_DEFAULTS.temperature);
+  assert.equal(result.accepted, false);
+  assert.equal(result.reason, 'rate');
+  assert.equal(result.state.rejected, 1);
+  assert.deepEqual(result.state.candidate, { value: -20, at: 10 * MINUTE });
+});
@@ -0,0 +1,117 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  applyProfileThreshold,
+  evaluatePlantAlarms,
+  parseCustomPlantProfiles,
+  PLANT_PROFILES,
+  resolvePlantProfile,
+} = require('../.homeybuild/lib/plantProfiles');
+const { DP_WRITE, ZG303Z_DEFINITION } = require('../.homeybuild/lib/zg303zDatapoints');
+
+const bonsai = {
+  id: 'bonsai',
+  name: 'Bonsai',
+  soilMoisture: { min: 35, max: 65 },
+  temperature: { min: 10, max: 30 },
+  humidity: { min: 40, max: 70 },
+};
+
+test('bundled profiles have unique ids and consistent ranges', () => {
+  const ids = PLANT_PROFILES.map((p) => p.id);
+  assert.equal(new Set(ids).size, ids.length);
+  for (const p of PLANT_PROFILES) {
+    for (const range of [p.soilMoisture, p.temperature, p.humidity]) {
+      assert.ok(range.min < range.max, `${p.id} range`);
+    }
+    assert.ok(p.soilMoisture.min >= 0 && p.soilMoisture.max <= 100, `${p.id} soil moisture`);
+  }
+});
+
+test('parseCustomPlantProfiles accepts JSON text and skips invalid entries', () => {
+  const stored = JSON.stringify([
+    bonsai,
+    { id: 'no-ranges' },
+    {
+      id: 'inverted', soilMoisture: { min: 70, max: 30 }, temperature: bonsai.temperature, humidity: bonsai.humidity,
+    },
+    {
+      id: ' chili ', soilMoisture: { min: 40, max: 70 }, temperature: { min: 15, max: 32 }, humidity: { min: 40, max: 70 },
+    },
+  ]);
+  const profiles = parseCustomPlantProfiles(stored);
+  assert.deepEqual(profiles.map((p) => [p.id, p.name]), [['bonsai', 'Bonsai'], ['chili', 'chili']]);
+  assert.deepEqual(parseCustomPlantProfiles('not json'), []);
+  assert.deepEqual(parseCustomPlantProfiles(undefined), []);
+});
+
+test('resolvePlantProfile finds bundled and custom profiles', () => {
+  assert.equal(resolvePlantProfile({ profileId: 'monstera' }).name, 'Monstera');
+  assert.equal(resolvePlantProfile({ profileId: 'none' }), undefined);
+  assert.equal(resolvePlantProfile({ profileId: 'unknown' }), undefined);
+  assert.equal(resolvePlantProfile({ profileId: 'custom', customName: 'BONSAI', customProfiles: [bonsai] }), bonsai);
+  assert.equal(resolvePlantProfile({ profileId: 'custom', customName: 'Bonsai', customProfiles: [bonsai] }), bonsai);
+  assert.equal(resolvePlantProfile({ profileId: 'custom', customName: '', customProfiles: [bonsai] }), undefined);
+});
+
+test('evaluatePlantAlarms compares readings with the profile ranges', () => {
+  assert.deepEqual(
+    evaluatePlantAlarms(bonsai, { soilMoisture: 70, temperature: 8, humidity: 35 }),
+    { tooWet: true, tooCold: true, dryAir: true },
+  );
+  assert.deepEqual(
+    evaluatePlantAlarms(bonsai, { soilMoisture: 65, temperature: 10, humidity: 40 }),
+    { tooWet: false, tooCold: false, dryAir: false },
+  );
+  assert.deepEqual(
+    evaluatePlantAlarms(bonsai, { soilMoisture: null, temperature: undefined }),
+    { tooWet: false, tooCold: false, dryAir: false },
+  );
+  assert.deepEqual(
+    evaluatePlantAlarms(undefined, { soilMoisture: 100, temperature: -10, humidity: 0 }),
+    { tooWet: false, tooCold: false, dryAir: false },
+  );
+});
+
+test('choosing a profile writes its minimum soil moisture as the dryness threshold', () => {
+  const monstera = resolvePlantProfile({ profileId: 'monstera' });
+  const oldSettings = { plant_profile: 'none', soil_warning: 20 };
+  const change = applyProfileThreshold({
+    oldSettings,
+    newSettings: { plant_profile: 'monstera', soil_warning: 20 },
+    changedKeys: ['plant_profile'],
+    newProfile: monstera,
+  });
+  assert.deepEqual(change.changedKeys, ['plant_profile', 'soil_warning']);
+  assert.equal(change.newSettings.soil_warning, monstera.soilMoisture.min);
+  assert.equal(oldSettings.soil_warning, 20);
+
+  // DP 110 gets the profile's threshold
+  const definition = ZG303Z_DEFINITION.settings.find((s) => s.setting === 'soil_warning');
+  assert.equal(definition.dp, DP_WRITE.SOIL_WARNING_THRESHOLD);
+  assert.equal(definition.toDevice(change.newSettings.soil_warning), 30);
+});
+
+test('the soil_warning setting only applies without a profile', () => {
+  const monstera = resolvePlantProfile({ profileId: 'monstera' });
+  const withProfile = { plant_profile: 'monstera', soil_warning: 30 };
+  assert.deepEqual(applyProfileThreshold({
+    oldSettings: withProfile,
+    newSettings: { plant_profile: 'monstera', soil_warning: 50 },
+    changedKeys: ['soil_warning'],
+    oldProfile: monstera,
+    newProfile: monstera,
+  }).changedKeys, []);
+
+  const change = applyProfileThreshold({
+    oldSettings: withProfile,
+    newSettings: { plant_profile: 'none', soil_warning: 50 },
+    changedKeys: ['plant_profile', 'soil_warning'],
+    oldProfile: monstera,
+  });
+  assert.deepEqual(change.changedKeys, ['plant_profile', 'soil_warning']);
+  assert.equal(change.newSettings.soil_warning, 50);
+});
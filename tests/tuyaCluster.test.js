@@ -0,0 +1,115 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { zclFrames } = require('zigbee-clusters');
+
+const {
+  MAX_TUYA_DP_LIST_LENGTH, TuyaDpList, TuyaSpecificCluster, TUYA_CMD,
+} = require('../.homeybuild/lib/TuyaCluster');
+const { encodeTuyaDatapoint, encodeTuyaZclFrame, TuyaDataTypes } = require('../.homeybuild/lib/tuyaFrame');
+const { formatTuyaMcuVersion } = require('../.homeybuild/lib/deviceInfo');
+
+const soil = encodeTuyaDatapoint({ dp: 107, datatype: TuyaDataTypes.VALUE, value: 54 });
+const temperature = encodeTuyaDatapoint({ dp: 101, datatype: TuyaDataTypes.VALUE, value: 253 });
+const battery = encodeTuyaDatapoint({ dp: 110, datatype: TuyaDataTypes.ENUM, value: 2 });
+
+// Feed a device-to-Homey frame through the cluster as the endpoint would
+async function receive(commandId, seq, payload) {
+  const cluster = new TuyaSpecificCluster({ sendFrame: async () => {} });
+  const events = [];
+  for (const event of ['datapoint', 'reporting', 'response']) {
+    cluster.on(event, (report) => events.push({ event, report }));
+  }
+  // Cluster-specific, server-to-client
+  const raw = encodeTuyaZclFrame({
+    commandId, seq, payload, frameControl: 0x09,
+  });
+  await cluster.handleFrame(zclFrames.ZCLStandardHeader.fromBuffer(raw), {}, raw);
+  return events;
+}
+
+test('a reporting frame with several DPs emits one event with all of them', async () => {
+  const events = await receive(TUYA_CMD.REPORTING, 42, { status: 0, transid: 7, dpValues: [soil, temperature, battery] });
+  assert.equal(events.length, 1);
+  assert.equal(events[0].event, 'reporting');
+  assert.deepEqual(events[0].report, {
+    seq: 42, commandId: TUYA_CMD.REPORTING, status: 0, transid: 7, dpValues: [soil, temperature, battery],
+  });
+});
+
+test('response and datapoint frames are decoded the same way', async () => {
+  const [response] = await receive(TUYA_CMD.RESPONSE, 3, { status: 0, transid: 9, dpValues: [temperature, soil] });
+  assert.equal(response.event, 'response');
+  assert.deepEqual(response.report.dpValues, [temperature, soil]);
+
+  const [datapoint] = await receive(TUYA_CMD.DATAPOINT, 4, { status: 0, transid: 10, dpValues: [battery] });
+  assert.equal(datapoint.event, 'datapoint');
+  assert.deepEqual(datapoint.report.dpValues, [battery]);
+});
+
+test('a truncated trailing DP is left out', async () => {
+  const raw = encodeTuyaZclFrame({
+    commandId: TUYA_CMD.REPORTING, seq: 1, payload: { status: 0, transid: 1, dpValues: [soil, temperature] }, frameControl: 0x09,
+  });
+  const cluster = new TuyaSpecificCluster({ sendFrame: async () => {} });
+  const reports = [];
+  cluster.on('reporting', (report) => reports.push(report));
+  const truncated = raw.subarray(0, raw.length - 2);
+  await cluster.handleFrame(zclFrames.ZCLStandardHeader.fromBuffer(truncated), {}, truncated);
+  assert.deepEqual(reports[0].dpValues, [soil]);
+});
+
+test('TuyaDpList encodes and decodes a DP list', () => {
+  const buf = Buffer.alloc(32);
+  const length = TuyaDpList.toBuffer(buf, [soil, battery], 2);
+  assert.equal(length, 8 + 5);
+  assert.deepEqual(TuyaDpList.fromBuffer(buf.subarray(0, 2 + length), 2, true), { result: [soil, battery], length });
+  assert.deepEqual(TuyaDpList.fromBuffer(Buffer.alloc(0), 0), []);
+});
+
+test('a multi-DP frame up to the frame size limit is sent whole, a larger one is rejected', async () => {
+  const frames = [];
+  const cluster = new TuyaSpecificCluster({ sendFrame: async (clusterId, frame) => frames.push(zclFrames.ZCLStandardHeader.fromBuffer(frame)) });
+  const raw = (dp, length) => ({ dp, datatype: TuyaDataTypes.RAW, data: Buffer.alloc(length, dp) });
+  // 8 + 5 + 4 + 236 = 253 bytes
+  const dpValues = [soil, battery, raw(1, 236)];
+  const send = (values) => cluster.datapoint({ status: 0, transid: 1, dpValues: values }, { disableDefaultResponse: true, waitForResponse: false });
+
+  await send(dpValues);
+  assert.equal(frames[0].data.length, 2 + MAX_TUYA_DP_LIST_LENGTH);
+  assert.deepEqual(TuyaDpList.fromBuffer(frames[0].data, 2), dpValues);
+
+  await assert.rejects(send([soil, battery, raw(1, 237)]), RangeError);
+  await assert.rejects(send([soil, raw(1, 300)]), RangeError);
+  assert.equal(frames.length, 1);
+});
+
+test('requestMcuVersion sends command 0x10 with the next transaction number as seq', async () => {
+  const frames = [];
+  const cluster = new TuyaSpecificCluster({ sendFrame: async (clusterId, frame) => frames.push(zclFrames.ZCLStandardHeader.fromBuffer(frame)) });
+  cluster.transactions.nextTransid();
+
+  await cluster.requestMcuVersion();
+  assert.equal(frames[0].cmdId, TUYA_CMD.MCU_VERSION_REQUEST);
+  // seq is two bytes, big-endian
+  assert.deepEqual(frames[0].data, Buffer.from([0x00, 0x02]));
+
+  await cluster.requestMcuVersion();
+  assert.deepEqual(frames[1].data, Buffer.from([0x00, 0x03]));
+});
+
+test('an mcuVersionResponse frame emits the version through the cluster', async () => {
+  const cluster = new TuyaSpecificCluster({ sendFrame: async () => {} });
+  const versions = [];
+  cluster.on('mcuVersion', (args) => versions.push(args));
+
+  // Cluster-specific, server-to-client: [seq:2][version:1]
+  const raw = Buffer.from([0x09, 0x10, TUYA_CMD.MCU_VERSION_RESPONSE, 0x00, 0x05, 0x48]);
+  await cluster.handleFrame(zclFrames.ZCLStandardHeader.fromBuffer(raw), {}, raw);
+  assert.equal(versions.length, 1);
+  assert.equal(versions[0].seq, 5);
+  assert.equal(versions[0].version, 0x48);
+  assert.equal(formatTuyaMcuVersion(versions[0].version), '1.0.8');
+});
@@ -3,7 +3,19 @@
 const test = require('node:test');
 const assert = require('node:assert/strict');
 
-const { decodeTuyaDpValuesFromZclFrame } = require('../.homeybuild/lib/tuyaFrame');
+const {
+  TuyaDataTypes,
+  decodeTuyaDatapoint,
+  decodeTuyaDpData,
+  decodeTuyaDpValues,
+  decodeTuyaDpValuesFromZclFrame,
+  decodeTuyaPayload,
+  encodeTuyaDatapoint,
+  encodeTuyaDpData,
+  encodeTuyaDpValues,
+  encodeTuyaPayload,
+  encodeTuyaZclFrame,
+} = require('../.homeybuild/lib/tuyaFrame');
 
 test('decodeTuyaDpValuesFromZclFrame parses manufacturer-specific ZCL header and multiple DPs', () => {
   // ZCL header: frameControl + manufCode(2) + seq + cmd
@@ -48,3 +60,109 @@ test('decodeTuyaDpValuesFromZclFrame parses manufacturer-specific ZCL header and
   assert.deepEqual(decoded.dpValues[0], { dp: dpSoil, datatype: typeValue, data: soilData });
   assert.deepEqual(decoded.dpValues[1], { dp: dpTemp, datatype: typeValue, data: tempData });
 });
+
+test('encodeTuyaDpData / decodeTuyaDpData round-trip every datatype', () => {
+  const cases = [
+    [TuyaDataTypes.RAW, Buffer.from([0xde, 0xad, 0xbe, 0xef]), 'deadbeef'],
+    [TuyaDataTypes.BOOL, true, '01'],
+    [TuyaDataTypes.BOOL, false, '00'],
+    [TuyaDataTypes.VALUE, 253, '000000fd'],
+    [TuyaDataTypes.VALUE, -15, 'fffffff1'],
+    [TuyaDataTypes.STRING, 'ZG-303Z', Buffer.from('ZG-303Z').toString('hex')],
+    [TuyaDataTypes.ENUM, 2, '02'],
+  ];
+
+  for (const [datatype, value, hex] of cases) {
+    const data = encodeTuyaDpData(datatype, value);
+    assert.equal(data.toString('hex'), hex);
+    assert.deepEqual(decodeTuyaDpData(datatype, data), value);
+  }
+});
+
+test('encodeTuyaDpData encodes BITMAP with 1/2/4-byte widths', () => {
+  assert.equal(encodeTuyaDpData(TuyaDataTypes.BITMAP, 0x05).toString('hex'), '05');
+  assert.equal(encodeTuyaDpData(TuyaDataTypes.BITMAP, 0x0105).toString('hex'), '0105');
+  assert.equal(encodeTuyaDpData(TuyaDataTypes.BITMAP, 0x01000005).toString('hex'), '01000005');
+  assert.equal(encodeTuyaDpData(TuyaDataTypes.BITMAP, 0x05, { bitmapWidth: 4 }).toString('hex'), '00000005');
+  assert.equal(encodeTuyaDpData(TuyaDataTypes.BITMAP, 0x05, { bitmapWidth: 2 }).toString('hex'), '0005');
+
+  assert.equal(decodeTuyaDpData(TuyaDataTypes.BITMAP, Buffer.from([0x80])), 0x80);
+  assert.equal(decodeTuyaDpData(TuyaDataTypes.BITMAP, Buffer.from([0x80, 0x01])), 0x8001);
+  assert.equal(decodeTuyaDpData(TuyaDataTypes.BITMAP, Buffer.from([0x80, 0x00, 0x00, 0x01])), 0x80000001);
+});
+
+test('decodeTuyaDpData accepts short VALUE payloads', () => {
+  assert.equal(decodeTuyaDpData(TuyaDataTypes.VALUE, Buffer.from([0xff, 0xf1])), -15);
+  assert.equal(decodeTuyaDpData(TuyaDataTypes.VALUE, Buffer.from([0x36])), 54);
+});
+
+test('encodeTuyaDpData rejects unknown datatypes and mismatched values', () => {
+  assert.throws(() => encodeTuyaDpData(0x42, 1));
+  assert.throws(() => encodeTuyaDpData(TuyaDataTypes.RAW, 1));
+  assert.throws(() => encodeTuyaDpData(TuyaDataTypes.VALUE, 'abc'));
+});
+
+test('encodeTuyaDatapoint / decodeTuyaDatapoint round-trip', () => {
+  const datapoint = { dp: 110, datatype: TuyaDataTypes.VALUE, value: 30 };
+  const encoded = encodeTuyaDatapoint(datapoint);
+  assert.deepEqual(encoded, { dp: 110, datatype: TuyaDataTypes.VALUE, data: Buffer.from([0, 0, 0, 30]) });
+  assert.deepEqual(decodeTuyaDatapoint(encoded), datapoint);
+});
+
+test('encodeTuyaPayload / decodeTuyaPayload round-trip multiple DPs', () => {
+  const payload = {
+    status: 0,
+    transid: 0x2a,
+    dpValues: [
+      encodeTuyaDatapoint({ dp: 106, datatype: TuyaDataTypes.ENUM, value: 0 }),
+      encodeTuyaDatapoint({ dp: 111, datatype: TuyaDataTypes.VALUE, value: 1800 }),
+      encodeTuyaDatapoint({ dp: 1, datatype: TuyaDataTypes.BOOL, value: true }),
+    ],
+  };
+
+  const buffer = encodeTuyaPayload(payload);
+  assert.equal(buffer.toString('hex'), [
+    '002a', // status + transid
+    '6a04000100', // DP 106 ENUM 0
+    '6f02000400000708', // DP 111 VALUE 1800
+    '0101000101', // DP 1 BOOL true
+  ].join(''));
+  assert.deepEqual(decodeTuyaPayload(buffer), payload);
+  assert.deepEqual(decodeTuyaDpValues(encodeTuyaDpValues(payload.dpValues)), payload.dpValues);
+});
+
+test('decodeTuyaPayload returns undefined for truncated payloads and skips truncated entries', () => {
+  assert.equal(decodeTuyaPayload(Buffer.from([0x00])), undefined);
+
+  const truncated = Buffer.from([0x00, 0x01, 0x65, 0x02, 0x00, 0x04, 0x00, 0x00]);
+  assert.deepEqual(decodeTuyaPayload(truncated), { status: 0, transid: 1, dpValues: [] });
+});
+
+test('encodeTuyaZclFrame output decodes back with decodeTuyaDpValuesFromZclFrame', () => {
+  const payload = {
+    status: 0,
+    transid: 7,
+    dpValues: [
+      encodeTuyaDatapoint({ dp: 107, datatype: TuyaDataTypes.VALUE, value: 54 }),
+      encodeTuyaDatapoint({ dp: 101, datatype: TuyaDataTypes.VALUE, value: 253 }),
+    ],
+  };
+
+  const standard = encodeTuyaZclFrame({ commandId: 0x00, seq: 3, payload });
+  assert.equal(standard.subarray(0, 3).toString('hex'), '010300');
+  const decodedStandard = decodeTuyaDpValuesFromZclFrame(standard);
+  assert.equal(decodedStandard.zclHeaderLength, 3);
+  assert.equal(decodedStandard.commandId, 0x00);
+  assert.deepEqual(decodedStandard.dpValues, payload.dpValues);
+
+  const manufacturerSpecific = encodeTuyaZclFrame({
+    commandId: 0x02, seq: 4, payload, frameControl: 0x09, manufacturerCode: 0x1002,
+  });
+  assert.equal(manufacturerSpecific.subarray(0, 5).toString('hex'), '0d02100402');
+  const decodedMfg = decodeTuyaDpValuesFromZclFrame(manufacturerSpecific);
+  assert.equal(decodedMfg.zclHeaderLength, 5);
+  assert.equal(decodedMfg.seq, 4);
+  assert.equal(decodedMfg.commandId, 0x02);
+  assert.equal(decodedMfg.transid, 7);
+  assert.deepEqual(decodedMfg.dpValues, payload.dpValues);
+});
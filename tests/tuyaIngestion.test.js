@@ -0,0 +1,62 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const TuyaReportDeduplicator = require('../.homeybuild/lib/tuyaIngestion').default;
+const { DEDUP_WINDOW_MS, ingestTuyaReport } = require('../.homeybuild/lib/tuyaIngestion');
+const {
+  decodeTuyaDpValuesFromZclFrame, encodeTuyaDatapoint, encodeTuyaZclFrame, TuyaDataTypes,
+} = require('../.homeybuild/lib/tuyaFrame');
+
+const soil = encodeTuyaDatapoint({ dp: 107, datatype: TuyaDataTypes.VALUE, value: 54 });
+const temperature = encodeTuyaDatapoint({ dp: 101, datatype: TuyaDataTypes.VALUE, value: 253 });
+
+const frame = (seq, transid, dpValues) => decodeTuyaDpValuesFromZclFrame(encodeTuyaZclFrame({
+  commandId: 0x01, seq, payload: { status: 0, transid, dpValues },
+}));
+
+test('a retransmitted frame is dropped as a whole', () => {
+  const dedup = new TuyaReportDeduplicator();
+  assert.deepEqual(dedup.accept(frame(5, 9, [soil, temperature]), 1000), [soil, temperature]);
+  assert.deepEqual(dedup.accept(frame(5, 9, [soil, temperature]), 2000), []);
+  assert.deepEqual(dedup.counters, {
+    reports: 2, duplicateReports: 1, datapoints: 2, duplicateDatapoints: 2,
+  });
+});
+
+test('the same value with a new transid or sequence number is processed again', () => {
+  const dedup = new TuyaReportDeduplicator();
+  dedup.accept(frame(5, 9, [soil]), 1000);
+  assert.deepEqual(dedup.accept(frame(5, 10, [soil]), 1100), [soil]);
+  assert.deepEqual(dedup.accept(frame(6, 10, [soil]), 1200), [soil]);
+});
+
+test('only new DPs of a partly duplicate report are passed on', () => {
+  const dedup = new TuyaReportDeduplicator();
+  // Without a sequence number only the transid is compared
+  dedup.accept({ commandId: 0x01, transid: 9, dpValues: [soil] }, 1000);
+  assert.deepEqual(dedup.accept(frame(5, 9, [soil, temperature]), 1100), [temperature]);
+  assert.equal(dedup.counters.duplicateReports, 0);
+});
+
+test('duplicates are only dropped within the window', () => {
+  const dedup = new TuyaReportDeduplicator();
+  dedup.accept(frame(5, 9, [soil]), 1000);
+  assert.deepEqual(dedup.accept(frame(5, 9, [soil]), 1000 + DEDUP_WINDOW_MS), [soil]);
+});
+
+test('ingestTuyaReport skips a DP without data and decodes the rest of the report', () => {
+  const empty = { dp: 105, datatype: TuyaDataTypes.VALUE, data: Buffer.alloc(0) };
+  const result = ingestTuyaReport(new TuyaReportDeduplicator(), frame(5, 9, [soil, empty, temperature]), 1000);
+
+  assert.deepEqual(result.fresh, [soil, empty, temperature]);
+  assert.deepEqual(result.datapoints, [
+    { dp: 107, datatype: TuyaDataTypes.VALUE, value: 54 },
+    { dp: 101, datatype: TuyaDataTypes.VALUE, value: 253 },
+  ]);
+  assert.equal(result.invalid.length, 1);
+  assert.deepEqual(result.invalid[0].dpValue, empty);
+  assert.match(result.invalid[0].error.message, /without data/);
+  assert.equal(result.duplicates, 0);
+});
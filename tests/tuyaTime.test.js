@@ -0,0 +1,74 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { zclFrames } = require('zigbee-clusters');
+
+const {
+  decodeTuyaTimeSyncPayload,
+  encodeTuyaTimeSyncPayload,
+  getTimezoneOffsetMinutes,
+} = require('../.homeybuild/lib/tuyaTime');
+const { TuyaSpecificCluster, TUYA_CLUSTER_ID, TUYA_CMD } = require('../.homeybuild/lib/TuyaCluster');
+
+// 2024-06-01T12:00:00Z
+const NOW_MS = Date.UTC(2024, 5, 1, 12, 0, 0);
+const NOW_S = NOW_MS / 1000;
+
+test('getTimezoneOffsetMinutes handles DST and unknown zones', () => {
+  assert.equal(getTimezoneOffsetMinutes('UTC', new Date(NOW_MS)), 0);
+  assert.equal(getTimezoneOffsetMinutes('Europe/Oslo', new Date(NOW_MS)), 120);
+  assert.equal(getTimezoneOffsetMinutes('Europe/Oslo', new Date(Date.UTC(2024, 0, 15))), 60);
+  assert.equal(getTimezoneOffsetMinutes('America/New_York', new Date(NOW_MS)), -240);
+  assert.equal(getTimezoneOffsetMinutes('Asia/Kolkata', new Date(NOW_MS)), 330);
+  assert.equal(getTimezoneOffsetMinutes('Not/AZone', new Date(NOW_MS)), 0);
+});
+
+test('encodeTuyaTimeSyncPayload writes UTC and local seconds big-endian', () => {
+  const payload = encodeTuyaTimeSyncPayload({ nowMs: NOW_MS, timezoneOffsetMinutes: 120 });
+  assert.equal(payload.length, 8);
+  assert.equal(payload.readUInt32BE(0), NOW_S);
+  assert.equal(payload.readUInt32BE(4), NOW_S + 7200);
+  assert.deepEqual(decodeTuyaTimeSyncPayload(payload), { utcSeconds: NOW_S, localSeconds: NOW_S + 7200 });
+});
+
+test('encodeTuyaTimeSyncPayload supports negative offsets', () => {
+  const payload = encodeTuyaTimeSyncPayload({ nowMs: NOW_MS, timezoneOffsetMinutes: -240 });
+  assert.deepEqual(decodeTuyaTimeSyncPayload(payload), { utcSeconds: NOW_S, localSeconds: NOW_S - 4 * 3600 });
+});
+
+test('TuyaSpecificCluster emits timeRequest and replies with a 0x24 time frame', async () => {
+  const sent = [];
+  const endpoint = {
+    sendFrame: async (clusterId, frame) => {
+      sent.push({ clusterId, frame });
+    },
+  };
+  const cluster = new TuyaSpecificCluster(endpoint);
+
+  const requests = [];
+  cluster.on('timeRequest', (args) => requests.push(args));
+
+  // Device -> gateway: cluster specific, server to client, seq 0x12, cmd 0x24, 2-byte payload
+  const requestFrame = Buffer.from([0x09, 0x12, TUYA_CMD.TIME_SYNC, 0x00, 0x01]);
+  await cluster.handleFrame(zclFrames.ZCLStandardHeader.fromBuffer(requestFrame), {}, requestFrame);
+  assert.equal(requests.length, 1);
+  assert.deepEqual(requests[0].payload, Buffer.from([0x00, 0x01]));
+
+  const payload = encodeTuyaTimeSyncPayload({ nowMs: NOW_MS, timezoneOffsetMinutes: 60 });
+  await cluster.sendTimeSync(payload);
+
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].clusterId, TUYA_CLUSTER_ID);
+  const frame = zclFrames.ZCLStandardHeader.fromBuffer(sent[0].frame);
+  assert.equal(frame.cmdId, TUYA_CMD.TIME_SYNC);
+  assert.equal(frame.frameControl.directionToClient, false);
+  assert.equal(frame.frameControl.disableDefaultResponse, true);
+  // payloadSize is a regular ZCL uint16 (little-endian), as in Z2M and ZHA
+  assert.equal(frame.data.readUInt16LE(0), 8);
+  assert.deepEqual(decodeTuyaTimeSyncPayload(frame.data.subarray(2)), {
+    utcSeconds: NOW_S,
+    localSeconds: NOW_S + 3600,
+  });
+});
@@ -0,0 +1,150 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { zclFrames } = require('zigbee-clusters');
+
+const TuyaTransactionTracker = require('../.homeybuild/lib/tuyaTransactions').default;
+const { TuyaSpecificCluster } = require('../.homeybuild/lib/TuyaCluster');
+const { decodeTuyaPayload, TuyaDataTypes } = require('../.homeybuild/lib/tuyaFrame');
+
+// Manual clock with setTimeout/clearTimeout in the shape of this.homey
+function fakeClock() {
+  const clock = {
+    now: 0,
+    timers: [],
+    setTimeout(callback, ms) {
+      const timer = { at: clock.now + ms, callback };
+      clock.timers.push(timer);
+      return timer;
+    },
+    clearTimeout(timer) {
+      clock.timers = clock.timers.filter((t) => t !== timer);
+    },
+    advance(ms) {
+      clock.now += ms;
+      for (const timer of clock.timers.filter((t) => t.at <= clock.now)) {
+        clock.clearTimeout(timer);
+        timer.callback();
+      }
+    },
+  };
+  return clock;
+}
+
+function createTracker(initialTransid) {
+  const clock = fakeClock();
+  const tracker = new TuyaTransactionTracker(initialTransid);
+  tracker.useTimers(clock);
+  return { tracker, clock };
+}
+
+const DEFAULT_TIMEOUT_MS = 20;
+
+const value = (n) => {
+  const data = Buffer.alloc(4);
+  data.writeInt32BE(n, 0);
+  return data;
+};
+
+test('nextTransid increases monotonically and wraps at 255', () => {
+  const { tracker } = createTracker(253);
+  assert.deepEqual([tracker.nextTransid(), tracker.nextTransid(), tracker.nextTransid()], [254, 255, 0]);
+});
+
+test('handleEcho resolves by transid', async () => {
+  const { tracker } = createTracker();
+  const transid = tracker.nextTransid();
+  const echo = tracker.waitForEcho({ transid, dp: 110, data: value(30) }, 1000);
+
+  // Same transid acknowledges even if the device reports a different (clamped) value
+  assert.equal(tracker.handleEcho(transid, [{ dp: 110, datatype: TuyaDataTypes.VALUE, data: value(29) }]), 1);
+  await echo;
+  assert.equal(tracker.pendingCount, 0);
+});
+
+test('handleEcho falls back to DP + identical data for device-generated transids', async () => {
+  const { tracker } = createTracker();
+  const echo = tracker.waitForEcho({ transid: tracker.nextTransid(), dp: 110, data: value(30) }, 1000);
+
+  assert.equal(tracker.handleEcho(99, [{ dp: 110, datatype: TuyaDataTypes.VALUE, data: value(25) }]), 0);
+  assert.equal(tracker.handleEcho(99, [{ dp: 111, datatype: TuyaDataTypes.VALUE, data: value(30) }]), 0);
+  assert.equal(tracker.handleEcho(99, [
+    { dp: 109, datatype: TuyaDataTypes.VALUE, data: value(50) },
+    { dp: 110, datatype: TuyaDataTypes.VALUE, data: value(30) },
+  ]), 1);
+  await echo;
+});
+
+test('waitForEcho rejects after the timeout and rejectAll rejects outstanding writes', async () => {
+  const { tracker, clock } = createTracker();
+  const timedOut = tracker.waitForEcho({ transid: 1, dp: 110, data: value(30) }, 5);
+  clock.advance(4);
+  assert.equal(tracker.pendingCount, 1);
+  clock.advance(1);
+  await assert.rejects(timedOut, /Timeout/);
+  assert.equal(tracker.pendingCount, 0);
+
+  const pending = tracker.waitForEcho({ transid: 2, dp: 110, data: value(30) }, 1000);
+  tracker.rejectAll(new Error('Device deleted'));
+  await assert.rejects(pending, /Device deleted/);
+  assert.deepEqual(clock.timers, []);
+});
+
+test('waitForEcho rejects without timers', async () => {
+  await assert.rejects(new TuyaTransactionTracker().waitForEcho({ transid: 1, dp: 110, data: value(30) }, 5), /No timers/);
+});
+
+// A device that does not answer lets the write time out
+function createCluster(onSend = (cluster, payload, count, clock) => clock.advance(DEFAULT_TIMEOUT_MS)) {
+  const sent = [];
+  const frames = [];
+  const clock = fakeClock();
+  const cluster = new TuyaSpecificCluster({
+    sendFrame: async (clusterId, frame) => {
+      const parsed = zclFrames.ZCLStandardHeader.fromBuffer(frame);
+      frames.push(parsed.data);
+      const payload = decodeTuyaPayload(parsed.data);
+      sent.push(payload);
+      setImmediate(() => onSend(cluster, payload, sent.length, clock));
+    },
+  });
+  cluster.transactions.useTimers(clock);
+  return { cluster, sent, frames };
+}
+
+test('sendDatapoint resolves when the device echoes the write', async () => {
+  const { cluster, sent, frames } = createCluster((c, payload) => {
+    c.handleDatapointEcho(payload.transid, payload.dpValues);
+  });
+
+  await cluster.setDatapointValue(110, 30, { timeoutMs: 1000 });
+  assert.equal(sent.length, 1);
+  // DP length is big-endian on the wire
+  assert.deepEqual(frames[0].subarray(4, 6), Buffer.from([0x00, 0x04]));
+  assert.deepEqual(sent[0].dpValues, [{ dp: 110, datatype: TuyaDataTypes.VALUE, data: value(30) }]);
+});
+
+test('sendDatapoint retries with a fresh transid and rejects when never echoed', async () => {
+  const { cluster, sent } = createCluster((c, payload, count, clock) => {
+    // Only answer the second attempt
+    if (count === 2) c.handleDatapointEcho(payload.transid, payload.dpValues);
+    else clock.advance(DEFAULT_TIMEOUT_MS);
+  });
+
+  await cluster.setDatapointValue(111, 600, { timeoutMs: DEFAULT_TIMEOUT_MS, retries: 1 });
+  assert.equal(sent.length, 2);
+  assert.equal(sent[1].transid, (sent[0].transid + 1) & 0xff);
+
+  const silent = createCluster();
+  await assert.rejects(silent.cluster.setDatapointValue(111, 600, { timeoutMs: DEFAULT_TIMEOUT_MS, retries: 2 }), /Timeout/);
+  assert.equal(silent.sent.length, 3);
+});
+
+test('sendDatapoint without waitForAck resolves once the frame is sent', async () => {
+  const { cluster, sent } = createCluster(() => {});
+  await cluster.setDatapointEnum(106, 0, { waitForAck: false });
+  assert.equal(sent.length, 1);
+  assert.equal(cluster.transactions.pendingCount, 0);
+});
@@ -0,0 +1,79 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  DEFAULT_WRITE_QUEUE_OPTIONS,
+  acknowledgeDpWrite,
+  countPendingDpWrites,
+  enqueueDpWrite,
+  markDpWritesAttempted,
+  takeDueDpWrites,
+  toDpWriteQueue,
+} = require('../.homeybuild/lib/tuyaWriteQueue');
+
+const VALUE = 0x02;
+
+test('toDpWriteQueue tolerates missing or malformed store values', () => {
+  assert.deepEqual(toDpWriteQueue(undefined), {});
+  assert.deepEqual(toDpWriteQueue(null), {});
+  assert.deepEqual(toDpWriteQueue([1, 2]), {});
+  assert.deepEqual(toDpWriteQueue('nope'), {});
+});
+
+test('enqueueDpWrite coalesces writes per DP and resets attempts', () => {
+  let queue = enqueueDpWrite({}, { dp: 110, datatype: VALUE, value: 30 }, 1000);
+  queue = markDpWritesAttempted(queue, [110], 2000);
+  assert.equal(queue[110].attempts, 1);
+
+  queue = enqueueDpWrite(queue, { dp: 110, datatype: VALUE, value: 40 }, 3000);
+  queue = enqueueDpWrite(queue, { dp: 111, datatype: VALUE, value: 600 }, 3000);
+
+  assert.equal(countPendingDpWrites(queue), 2);
+  assert.deepEqual(queue[110], {
+    dp: 110, datatype: VALUE, value: 40, queuedAt: 3000, attempts: 0,
+  });
+});
+
+test('acknowledgeDpWrite only drops the entry when the echoed value matches', () => {
+  const queue = enqueueDpWrite({}, { dp: 110, datatype: VALUE, value: 30 }, 0);
+
+  assert.equal(acknowledgeDpWrite(queue, 110, 25), queue);
+  assert.equal(acknowledgeDpWrite(queue, 111, 30), queue);
+  assert.deepEqual(acknowledgeDpWrite(queue, 110, 30), {});
+  // Original queue is not mutated
+  assert.equal(countPendingDpWrites(queue), 1);
+});
+
+test('takeDueDpWrites respects the retry interval', () => {
+  let queue = enqueueDpWrite({}, { dp: 110, datatype: VALUE, value: 30 }, 0);
+
+  let result = takeDueDpWrites(queue, 0);
+  assert.deepEqual(result.due.map((w) => w.dp), [110]);
+
+  queue = markDpWritesAttempted(queue, [110], 0);
+  result = takeDueDpWrites(queue, DEFAULT_WRITE_QUEUE_OPTIONS.retryIntervalMs - 1);
+  assert.deepEqual(result.due, []);
+  assert.equal(countPendingDpWrites(result.queue), 1);
+
+  result = takeDueDpWrites(queue, DEFAULT_WRITE_QUEUE_OPTIONS.retryIntervalMs);
+  assert.deepEqual(result.due.map((w) => w.dp), [110]);
+});
+
+test('takeDueDpWrites expires entries out of attempts or too old', () => {
+  const options = { maxAttempts: 2, maxAgeMs: 10000, retryIntervalMs: 0 };
+  let queue = enqueueDpWrite({}, { dp: 110, datatype: VALUE, value: 30 }, 0);
+  queue = enqueueDpWrite(queue, { dp: 111, datatype: VALUE, value: 600 }, 5000);
+  queue = markDpWritesAttempted(queue, [110], 1);
+  queue = markDpWritesAttempted(queue, [110], 2);
+
+  let result = takeDueDpWrites(queue, 3, options);
+  assert.deepEqual(result.expired.map((w) => w.dp), [110]);
+  assert.deepEqual(result.due.map((w) => w.dp), [111]);
+  assert.deepEqual(Object.keys(result.queue), ['111']);
+
+  result = takeDueDpWrites(result.queue, 15001, options);
+  assert.deepEqual(result.expired.map((w) => w.dp), [111]);
+  assert.deepEqual(result.queue, {});
+});
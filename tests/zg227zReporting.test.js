@@ -0,0 +1,42 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { reportingFromSettings, reportingSettingKeys } = require('../.homeybuild/lib/zg227zReporting');
+const { applyHumidityCalibrationPercent, applyTemperatureCalibrationC } = require('../.homeybuild/lib/zg303z');
+
+test('reportingFromSettings falls back to the former fixed configuration', () => {
+  assert.deepEqual(reportingFromSettings({}, 'temperature'), { minInterval: 60, maxInterval: 3600, minChange: 50 });
+  assert.deepEqual(reportingFromSettings({}, 'humidity'), { minInterval: 60, maxInterval: 3600, minChange: 100 });
+});
+
+test('reportingFromSettings converts settings to attribute units', () => {
+  const settings = {
+    temperature_report_min_interval: 30,
+    temperature_report_max_interval: 900,
+    temperature_report_min_change: 0.2,
+    humidity_report_min_interval: 120,
+    humidity_report_max_interval: 7200,
+    humidity_report_min_change: 3,
+  };
+  assert.deepEqual(reportingFromSettings(settings, 'temperature'), { minInterval: 30, maxInterval: 900, minChange: 20 });
+  assert.deepEqual(reportingFromSettings(settings, 'humidity'), { minInterval: 120, maxInterval: 7200, minChange: 300 });
+});
+
+test('reportingFromSettings keeps the maximum interval at or above the minimum', () => {
+  const options = reportingFromSettings({ temperature_report_min_interval: 600, temperature_report_max_interval: 300 }, 'temperature');
+  assert.equal(options.maxInterval, 600);
+});
+
+test('reportingSettingKeys lists every reporting setting', () => {
+  assert.equal(reportingSettingKeys().length, 6);
+  assert.ok(reportingSettingKeys().includes('humidity_report_min_change'));
+});
+
+test('host-side calibration offsets readings and keeps humidity within 0-100%', () => {
+  assert.equal(applyTemperatureCalibrationC(21.5, -1.5), 20);
+  assert.equal(applyHumidityCalibrationPercent(55, 5), 60);
+  assert.equal(applyHumidityCalibrationPercent(98, 5), 100);
+  assert.equal(applyHumidityCalibrationPercent(2, -5), 0);
+});
@@ -15,6 +15,19 @@ const {
   toTuyaPercentCalibration,
   toTuyaSamplingSeconds,
   toTuyaSoilWarningThresholdPercent,
+  fromTuyaTemperatureCalibrationTenths,
+  fromTuyaPercentCalibration,
+  fromTuyaSamplingSeconds,
+  fromTuyaSoilWarningThresholdPercent,
+  crossedBelowThreshold,
+  crossedAboveThreshold,
+  drynessAlarmOptionsFromSettings,
+  updateDrynessAlarm,
+  smoothReading,
+  detectWatering,
+  daysSince,
+  appendSoilMoistureSample,
+  forecastHoursUntilDry,
 } = require('../.homeybuild/lib/zg303z');
 
 test('clampNumber clamps to range', () => {
@@ -108,3 +121,209 @@ test('toTuyaSoilWarningThresholdPercent clamps to 0..100', () => {
   assert.equal(toTuyaSoilWarningThresholdPercent(-1), 0);
   assert.equal(toTuyaSoilWarningThresholdPercent(999), 100);
 });
+
+test('fromTuya* converters invert the toTuya* converters', () => {
+  for (const offsetC of [-2, -0.5, 0, 1.3, 2]) {
+    assert.equal(fromTuyaTemperatureCalibrationTenths(toTuyaTemperatureCalibrationTenths(offsetC)), offsetC);
+  }
+  for (const percent of [-30, -5, 0, 12, 30]) {
+    assert.equal(fromTuyaPercentCalibration(toTuyaPercentCalibration(percent)), percent);
+  }
+  for (const seconds of [5, 60, 1800, 3600]) {
+    assert.equal(fromTuyaSamplingSeconds(toTuyaSamplingSeconds(seconds)), seconds);
+  }
+  for (const percent of [0, 30, 100]) {
+    assert.equal(fromTuyaSoilWarningThresholdPercent(toTuyaSoilWarningThresholdPercent(percent)), percent);
+  }
+});
+
+test('fromTuya* converters keep out-of-range device values', () => {
+  assert.equal(fromTuyaTemperatureCalibrationTenths(-50), -5);
+  assert.equal(fromTuyaPercentCalibration(99), 99);
+  assert.equal(fromTuyaSamplingSeconds(0), 0);
+  assert.equal(fromTuyaSoilWarningThresholdPercent(150), 150);
+});
+
+test('crossedBelowThreshold only fires on a downward transition', () => {
+  assert.equal(crossedBelowThreshold({ previous: 35, current: 25, threshold: 30 }), true);
+  assert.equal(crossedBelowThreshold({ previous: 30, current: 29, threshold: 30 }), true);
+  assert.equal(crossedBelowThreshold({ previous: 25, current: 20, threshold: 30 }), false);
+  assert.equal(crossedBelowThreshold({ previous: 25, current: 35, threshold: 30 }), false);
+  assert.equal(crossedBelowThreshold({ current: 20, threshold: 30 }), false);
+});
+
+test('crossedAboveThreshold only fires on an upward transition', () => {
+  assert.equal(crossedAboveThreshold({ previous: 25, current: 35, threshold: 30 }), true);
+  assert.equal(crossedAboveThreshold({ previous: 30, current: 31, threshold: 30 }), true);
+  assert.equal(crossedAboveThreshold({ previous: 35, current: 40, threshold: 30 }), false);
+  assert.equal(crossedAboveThreshold({ previous: 35, current: 25, threshold: 30 }), false);
+  assert.equal(crossedAboveThreshold({ current: 40, threshold: 30 }), false);
+});
+
+const MINUTE = 60 * 1000;
+
+function runDrynessAlarm(readings, options, initial = { alarm: false, pendingCount: 0 }) {
+  let state = initial;
+  return readings.map(([soilMoisturePercent, at]) => {
+    state = updateDrynessAlarm(state, { soilMoisturePercent, at }, options);
+    return state.alarm;
+  });
+}
+
+test('drynessAlarmOptionsFromSettings derives the off threshold from the hysteresis band', () => {
+  assert.deepEqual(drynessAlarmOptionsFromSettings({ thresholdPercent: 30, hysteresisPercent: 5 }), {
+    onThresholdPercent: 30,
+    offThresholdPercent: 35,
+    minConsecutiveReadings: 1,
+    minDurationMs: 0,
+  });
+  assert.equal(drynessAlarmOptionsFromSettings({ thresholdPercent: 98, hysteresisPercent: 5 }).offThresholdPercent, 100);
+  assert.equal(drynessAlarmOptionsFromSettings({ thresholdPercent: 30, minConsecutiveReadings: 0 }).minConsecutiveReadings, 1);
+  assert.equal(drynessAlarmOptionsFromSettings({ thresholdPercent: 30, minDurationMinutes: 15 }).minDurationMs, 15 * MINUTE);
+});
+
+test('updateDrynessAlarm without band or debounce matches computeWaterAlarmFromSoilMoisture', () => {
+  const options = drynessAlarmOptionsFromSettings({ thresholdPercent: 30 });
+  const values = [35, 29, 30, 29.9, 31, 10];
+  assert.deepEqual(
+    runDrynessAlarm(values.map((value, i) => [value, i * MINUTE]), options),
+    values.map((value) => computeWaterAlarmFromSoilMoisture({ soilMoisturePercent: value, thresholdPercent: 30 })),
+  );
+});
+
+test('updateDrynessAlarm hysteresis keeps the alarm on while hovering around the threshold', () => {
+  const options = drynessAlarmOptionsFromSettings({ thresholdPercent: 30, hysteresisPercent: 5 });
+  assert.deepEqual(
+    runDrynessAlarm([[31, 0], [29, 1], [31, 2], [34, 3], [35, 4], [31, 5], [29, 6]], options),
+    [false, true, true, true, false, false, true],
+  );
+});
+
+test('updateDrynessAlarm requires consecutive readings before changing state', () => {
+  const options = drynessAlarmOptionsFromSettings({ thresholdPercent: 30, minConsecutiveReadings: 3 });
+  assert.deepEqual(
+    runDrynessAlarm([[29, 0], [29, 1], [31, 2], [29, 3], [29, 4], [29, 5], [40, 6]], options),
+    [false, false, false, false, false, true, true],
+  );
+});
+
+test('updateDrynessAlarm requires the new state to last for the minimum duration', () => {
+  const options = drynessAlarmOptionsFromSettings({ thresholdPercent: 30, minDurationMinutes: 30 });
+  assert.deepEqual(
+    runDrynessAlarm([[29, 0], [29, 20 * MINUTE], [29, 30 * MINUTE], [40, 40 * MINUTE], [40, 80 * MINUTE]], options),
+    [false, false, true, true, false],
+  );
+  assert.deepEqual(
+    runDrynessAlarm([[40, 0], [40, 29 * MINUTE], [40, 30 * MINUTE]], options, { alarm: true, pendingCount: 0 }),
+    [true, true, false],
+  );
+});
+
+test('smoothReading passes the first reading through and then follows the EMA', () => {
+  const first = smoothReading({ raw: 40, at: 0, tauSeconds: 1800 });
+  assert.deepEqual(first, { raw: 40, smoothed: 40, at: 0 });
+
+  const second = smoothReading({
+    previous: first, raw: 30, at: 1800 * 1000, tauSeconds: 1800,
+  });
+  assert.equal(second.raw, 30);
+  assert.ok(Math.abs(second.smoothed - (40 - 10 * (1 - Math.exp(-1)))) < 1e-9);
+  assert.equal(second.at, 1800 * 1000);
+});
+
+test('smoothReading with tau 0 follows the raw value', () => {
+  const first = smoothReading({ raw: 40, at: 0, tauSeconds: 0 });
+  assert.equal(smoothReading({
+    previous: first, raw: 30, at: 60000, tauSeconds: 0,
+  }).smoothed, 30);
+});
+
+test('smoothReading does not move the average for a reading that is not newer', () => {
+  const previous = { raw: 30, smoothed: 35, at: 1000 };
+  assert.deepEqual(smoothReading({
+    previous, raw: 30, at: 1000, tauSeconds: 1800,
+  }), { raw: 30, smoothed: 35, at: 1000 });
+});
+
+test('detectWatering reports a sharp rise between consecutive readings', () => {
+  assert.deepEqual(detectWatering({
+    previous: { value: 25, at: 0 },
+    current: { value: 60, at: 30 * MINUTE },
+  }), {
+    event: {
+      at: 30 * MINUTE, before: 25, after: 60, addedPercent: 35,
+    },
+    merged: false,
+  });
+});
+
+test('detectWatering ignores small, slow or falling changes', () => {
+  assert.equal(detectWatering({ previous: { value: 25, at: 0 }, current: { value: 33, at: 30 * MINUTE } }), undefined);
+  assert.equal(detectWatering({ previous: { value: 25, at: 0 }, current: { value: 45, at: 12 * 60 * MINUTE } }), undefined);
+  assert.equal(detectWatering({ previous: { value: 60, at: 0 }, current: { value: 25, at: 30 * MINUTE } }), undefined);
+  assert.equal(detectWatering({ current: { value: 60, at: 0 } }), undefined);
+});
+
+test('detectWatering extends a recent watering instead of starting a new one', () => {
+  const lastWatering = {
+    at: 30 * MINUTE, before: 25, after: 45, addedPercent: 20,
+  };
+  assert.deepEqual(detectWatering({
+    previous: { value: 45, at: 30 * MINUTE },
+    current: { value: 60, at: 60 * MINUTE },
+    lastWatering,
+  }), {
+    event: {
+      at: 60 * MINUTE, before: 25, after: 60, addedPercent: 35,
+    },
+    merged: true,
+  });
+
+  const later = detectWatering({
+    previous: { value: 30, at: 24 * 60 * MINUTE },
+    current: { value: 55, at: 24 * 60 * MINUTE + 30 * MINUTE },
+    lastWatering,
+  });
+  assert.equal(later.merged, false);
+  assert.equal(later.event.before, 30);
+});
+
+test('daysSince returns elapsed days with one decimal', () => {
+  const DAY = 24 * 60 * MINUTE;
+  assert.equal(daysSince(0, 0), 0);
+  assert.equal(daysSince(0, 1.5 * DAY), 1.5);
+  assert.equal(daysSince(0, 2.26 * DAY), 2.3);
+  assert.equal(daysSince(10, 0), 0);
+});
+
+const HOUR = 60 * MINUTE;
+const hourly = (values, startHour = 0) => values.map((value, i) => ({ value, at: (startHour + i) * HOUR }));
+
+test('appendSoilMoistureSample keeps only samples inside the window', () => {
+  const history = hourly([50, 49, 48]);
+  assert.deepEqual(appendSoilMoistureSample(history, { value: 47, at: 3 * HOUR }, 2), hourly([49, 48, 47], 1));
+});
+
+test('forecastHoursUntilDry extrapolates a linear drying trend to the threshold', () => {
+  // 1% per hour, currently 40%: 10 hours until 30%
+  assert.equal(forecastHoursUntilDry({ history: hourly([45, 44, 43, 42, 41, 40]), thresholdPercent: 30 }), 10);
+});
+
+test('forecastHoursUntilDry ignores readings before a watering jump', () => {
+  // Dried fast, was watered, now drying at 2% per hour from 60%
+  const history = hourly([40, 35, 30, 62, 60, 58, 56]);
+  assert.equal(forecastHoursUntilDry({ history, thresholdPercent: 30 }), 13);
+});
+
+test('forecastHoursUntilDry is unknown without enough data or without a drying trend', () => {
+  assert.equal(forecastHoursUntilDry({ history: [], thresholdPercent: 30 }), undefined);
+  assert.equal(forecastHoursUntilDry({ history: hourly([45, 44]), thresholdPercent: 30 }), undefined);
+  assert.equal(forecastHoursUntilDry({ history: hourly([40, 40, 40, 40]), thresholdPercent: 30 }), undefined);
+  assert.equal(forecastHoursUntilDry({ history: hourly([40, 41, 42, 43]), thresholdPercent: 30 }), undefined);
+  // Too short a span after the watering jump
+  assert.equal(forecastHoursUntilDry({ history: hourly([40, 35, 60, 59]), thresholdPercent: 30 }), undefined);
+});
+
+test('forecastHoursUntilDry is 0 once the soil is below the threshold', () => {
+  assert.equal(forecastHoursUntilDry({ history: hourly([32, 31, 29]), thresholdPercent: 30 }), 0);
+});
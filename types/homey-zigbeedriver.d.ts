@@ -7,13 +7,23 @@ declare module 'homey-zigbeedriver' {
   }
 
   export class ZigBeeDevice extends Homey.Device {
+    node: any;
     zclNode: any;
     log(...args: any[]): void;
     error(...args: any[]): void;
     getSetting(key: string): any;
     setCapabilityValue(capability: string, value: any): Promise<void>;
     onNodeInit(options: { zclNode: any }): Promise<void>;
+    isFirstInit(): boolean;
     registerCapability(capabilityId: string, cluster: any, config?: any): void;
+    configureAttributeReporting(attributeReportingConfigurations: Array<{
+      endpointId?: number;
+      cluster: any;
+      attributeName: string;
+      minInterval?: number;
+      maxInterval?: number;
+      minChange?: number;
+    }>): Promise<void>;
   }
 
   export const CLUSTER: any;
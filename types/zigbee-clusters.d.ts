@@ -2,6 +2,8 @@ declare module 'zigbee-clusters' {
   export const CLUSTER: any;
   
   export class Cluster {
+    static DIRECTION_SERVER_TO_CLIENT: string;
+    static DIRECTION_CLIENT_TO_SERVER: string;
     static get ID(): number;
     static get NAME(): string;
     static get ATTRIBUTES(): any;
@@ -9,6 +11,7 @@ declare module 'zigbee-clusters' {
     static addCluster(cluster: typeof Cluster): void;
     
     on(event: string, callback: (...args: any[]) => void): void;
+    emit(event: string, ...args: any[]): boolean;
     readAttributes(attributes: string[]): Promise<any>;
     sendFrame(data: { cmdId: number; frameControl?: string[]; data?: Buffer }): Promise<void>;
   }
@@ -18,6 +21,20 @@ declare module 'zigbee-clusters' {
     static get NAME(): string;
   }
 
+  export class ZCLDataType {
+    constructor(
+      id: number,
+      shortName: string,
+      length: number,
+      toBuf: (buf: Buffer, value: any, index: number) => number | Buffer,
+      fromBuf: (buf: Buffer, index: number, returnLength?: boolean) => any,
+      ...args: any[]
+    );
+    readonly id: number;
+    readonly shortName: string;
+    readonly length: number;
+  }
+
   export const ZCLDataTypes: {
     uint8: any;
     uint16: any;